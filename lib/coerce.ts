@@ -1,9 +1,15 @@
+import { upgradeJrpc1Message } from "./jrpc1.ts";
 import type {
+  TCoercionStrictness,
   TJsonRpcError,
+  TJsonRpcExtensions,
+  TJsonRpcMandatoryId,
   TJsonRpcMessage,
+  TJsonRpcMeta,
   TJsonRpcNotification,
   TJsonRpcOptionalId,
   TJsonRpcParameters,
+  TJsonRpcProtocolVersion,
   TJsonRpcRequest,
   TJsonRpcResponse
 } from "./types.ts";
@@ -124,8 +130,54 @@ const coerceId = ({ id }: { id: unknown }): TCoerceIdResult => {
   };
 };
 
+type TCoerceMetaResult = {
+  error: Error;
+  meta: undefined;
+} | {
+  error: undefined;
+  meta: TJsonRpcMeta | undefined;
+};
+
+const coerceMeta = ({ meta }: { meta: unknown }): TCoerceMetaResult => {
+  if (meta === undefined) {
+    return {
+      error: undefined,
+      meta: undefined
+    };
+  }
+
+  if (typeof meta !== "object" || meta === null || Array.isArray(meta)) {
+    return {
+      error: Error("invalid field type for $meta"),
+      meta: undefined
+    };
+  }
+
+  const { deadline, traceparent } = meta as Record<string, unknown>;
+
+  if (deadline !== undefined && (typeof deadline !== "number" || !Number.isFinite(deadline))) {
+    return {
+      error: Error("invalid field type for $meta.deadline"),
+      meta: undefined
+    };
+  }
+
+  // the format is checked when tracing, malformed trace context only starts a new trace
+  if (traceparent !== undefined && typeof traceparent !== "string") {
+    return {
+      error: Error("invalid field type for $meta.traceparent"),
+      meta: undefined
+    };
+  }
+
+  return {
+    error: undefined,
+    meta: meta as TJsonRpcMeta
+  };
+};
+
 const extractJrpcFields = ({ messageObj }: { messageObj: Record<string, unknown> }) => {
-  const { jsonrpc, id, method, params, result, error, ...otherFields } = messageObj;
+  const { jsonrpc, id, method, params, result, error, $meta: meta, ...otherFields } = messageObj;
 
   return {
     jrpcFields: {
@@ -135,11 +187,42 @@ const extractJrpcFields = ({ messageObj }: { messageObj: Record<string, unknown>
       params,
       result,
       error,
+      meta
     },
     otherFields
   };
 };
 
+// some peers fill the unused one of result and error with null instead of leaving it out
+const dropNullCounterpart = <T extends { result: unknown, error: unknown }>({ jrpcFields }: { jrpcFields: T }): T => {
+  if (jrpcFields.result === null && jrpcFields.error !== undefined && jrpcFields.error !== null) {
+    return { ...jrpcFields, result: undefined };
+  }
+
+  if (jrpcFields.error === null && jrpcFields.result !== undefined) {
+    return { ...jrpcFields, error: undefined };
+  }
+
+  return jrpcFields;
+};
+
+const withExtensions = ({
+  jrpcMessage,
+  extensions
+}: {
+  jrpcMessage: TJsonRpcMessage,
+  extensions: TJsonRpcExtensions | undefined
+}): TJsonRpcMessage => {
+  if (extensions === undefined) {
+    return jrpcMessage;
+  }
+
+  return {
+    ...jrpcMessage,
+    $extensions: extensions
+  };
+};
+
 type TCoerceMethodResult = {
   error: Error;
   method: undefined;
@@ -184,6 +267,7 @@ type TJrpcFields = {
   params: TJsonRpcParameters | undefined;
   result: unknown | undefined;
   error: TJsonRpcError | undefined;
+  meta?: TJsonRpcMeta;
 };
 
 type TCoerceJrpcFieldsResult = {
@@ -204,8 +288,9 @@ const coerceJrcpFields = ({
     params: unknown;
     result: unknown;
     error: unknown;
+    meta?: unknown;
   };
-  // eslint-disable-next-line complexity
+  // eslint-disable-next-line complexity, max-statements
 }): TCoerceJrpcFieldsResult => {
 
   if (typeof jrpcFields.jsonrpc !== "string") {
@@ -247,6 +332,14 @@ const coerceJrcpFields = ({
     };
   }
 
+  const { error: metaError, meta } = coerceMeta({ meta: jrpcFields.meta });
+  if (metaError !== undefined) {
+    return {
+      error: metaError,
+      jrpcFields: undefined
+    };
+  }
+
   return {
     error: undefined,
     jrpcFields: {
@@ -255,7 +348,8 @@ const coerceJrcpFields = ({
       method,
       params,
       result: jrpcFields.result,
-      error: errorField
+      error: errorField,
+      meta
     }
   };
 };
@@ -362,7 +456,8 @@ const coerceJrpcRequest = ({
       jsonrpc: "2.0",
       id: jrpcFields.id,
       method: jrpcFields.method,
-      params: jrpcFields.params
+      params: jrpcFields.params,
+      ...(jrpcFields.meta === undefined ? {} : { $meta: jrpcFields.meta })
     }
   };
 };
@@ -381,7 +476,7 @@ const coerceJrcpResponse = ({
   jrpcFields: TJrpcFields;
   // eslint-disable-next-line complexity
 }): TCoerceJrpcResponseResult => {
-  if (jrpcFields.id === undefined || jrpcFields.id === null) {
+  if (jrpcFields.id === undefined) {
     return {
       error: Error("response must have an id"),
       jrpcResponse: undefined
@@ -422,6 +517,14 @@ const coerceJrcpResponse = ({
     };
   }
 
+  // a null id is only valid for errors on requests whose id could not be read
+  if (jrpcFields.id === null) {
+    return {
+      error: Error("success response must not have a null id"),
+      jrpcResponse: undefined
+    };
+  }
+
   return {
     error: undefined,
     jrpcResponse: {
@@ -433,7 +536,25 @@ const coerceJrcpResponse = ({
 };
 
 // eslint-disable-next-line max-statements, complexity
-const coerceJrpcMessage = ({ message }: { message: unknown }): TCoerceJrpcMessageResult => {
+const coerceJrpcMessage = ({
+  message: rawMessage,
+  protocolVersion = "2.0",
+  strictness = "strict"
+}: {
+  message: unknown,
+  protocolVersion?: TJsonRpcProtocolVersion,
+  strictness?: TCoercionStrictness
+}): TCoerceJrpcMessageResult => {
+  const { error: upgradeError, message } = protocolVersion === "1.0"
+    ? upgradeJrpc1Message({ message: rawMessage })
+    : { error: undefined, message: rawMessage };
+  if (upgradeError !== undefined) {
+    return {
+      error: upgradeError,
+      jrpcMessage: undefined
+    };
+  }
+
   if (typeof message !== "object" || message === null) {
     return {
       error: Error("invalid message"),
@@ -453,14 +574,18 @@ const coerceJrpcMessage = ({ message }: { message: unknown }): TCoerceJrpcMessag
 
   const keysOfOtherFields = Object.keys(otherFields);
 
-  if (keysOfOtherFields.length > 0) {
+  if (strictness === "strict" && keysOfOtherFields.length > 0) {
     return {
       error: Error(`unexpected field "${keysOfOtherFields[0]}" in message`),
       jrpcMessage: undefined
     };
   }
 
-  const { error: jrpcFieldsError, jrpcFields: coercedJrpcFields } = coerceJrcpFields({ jrpcFields });
+  const extensions = strictness === "passthrough" && keysOfOtherFields.length > 0 ? otherFields : undefined;
+
+  const { error: jrpcFieldsError, jrpcFields: coercedJrpcFields } = coerceJrcpFields({
+    jrpcFields: strictness === "strict" ? jrpcFields : dropNullCounterpart({ jrpcFields })
+  });
   if (jrpcFieldsError !== undefined) {
     return {
       error: jrpcFieldsError,
@@ -488,7 +613,7 @@ const coerceJrpcMessage = ({ message }: { message: unknown }): TCoerceJrpcMessag
 
     return {
       error: undefined,
-      jrpcMessage: jrpcNotification
+      jrpcMessage: withExtensions({ jrpcMessage: jrpcNotification, extensions })
     };
   } else {
     if (method === undefined) {
@@ -502,7 +627,7 @@ const coerceJrpcMessage = ({ message }: { message: unknown }): TCoerceJrpcMessag
 
       return {
         error: undefined,
-        jrpcMessage: jrpcResponse
+        jrpcMessage: withExtensions({ jrpcMessage: jrpcResponse, extensions })
       };
     }
 
@@ -516,13 +641,40 @@ const coerceJrpcMessage = ({ message }: { message: unknown }): TCoerceJrpcMessag
 
     return {
       error: undefined,
-      jrpcMessage: jrpcRequest
+      jrpcMessage: withExtensions({ jrpcMessage: jrpcRequest, extensions })
     };
   }
 };
 
+// best effort extraction of the id of a message that could not be coerced, used for error responses
+const recoverId = ({ message }: { message: unknown }): TJsonRpcMandatoryId | null => {
+  if (typeof message !== "object" || message === null) {
+    return null;
+  }
+
+  const { id } = message as Record<string, unknown>;
+  if (typeof id === "string" || typeof id === "number") {
+    return id;
+  }
+
+  return null;
+};
+
+// answering something that was meant as a response could make two peers answer each other endlessly
+const looksLikeResponse = ({ message }: { message: unknown }): boolean => {
+  if (typeof message !== "object" || message === null) {
+    return false;
+  }
+
+  const messageObj = message as Record<string, unknown>;
+  return messageObj.method === undefined && (messageObj.result !== undefined || messageObj.error !== undefined);
+};
+
 export {
+  recoverId,
+  looksLikeResponse,
   coerceParams,
+  coerceMeta,
   coerceErrorField,
   coerceId,
   coerceMethod,
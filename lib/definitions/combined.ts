@@ -2,7 +2,8 @@ import type {
   TNotificationHandler,
   TNotifyMethod,
   TRequestHandler,
-  TRequestMethod
+  TRequestMethod,
+  TRequestStreamMethod
 } from "../types.ts";
 import type { TRpcNotificationsDefinition } from "./notification.ts";
 import type { TRpcRequestsDefinition } from "./requests.ts";
@@ -34,19 +35,22 @@ const createCombined = <
     incomingNotifications,
 
     outgoingRequest,
+    outgoingRequestStream,
     outgoingNotify
   }: {
     incomingRequests: Parameters<TSideARequests["createServer"]>[0];
     incomingNotifications: Parameters<TSideANotifications["createServer"]>[0];
 
     outgoingRequest: TRequestMethod;
+    outgoingRequestStream?: TRequestStreamMethod;
     outgoingNotify: TNotifyMethod;
   }) => {
     const { handleRequest } = sideADefinitions.requests.createServer(incomingRequests);
     const { handleNotification } = sideADefinitions.notifications.createServer(incomingNotifications);
 
     const outgoingRequests = sideBDefinitions.requests.createClient({
-      request: outgoingRequest
+      request: outgoingRequest,
+      requestStream: outgoingRequestStream
     });
 
     const outgoingNotifications = sideBDefinitions.notifications.createClient({
@@ -67,19 +71,22 @@ const createCombined = <
     incomingNotifications,
 
     outgoingRequest,
+    outgoingRequestStream,
     outgoingNotify
   }: {
     incomingRequests: Parameters<TSideBRequests["createServer"]>[0];
     incomingNotifications: Parameters<TSideBNotifications["createServer"]>[0];
 
     outgoingRequest: TRequestMethod
+    outgoingRequestStream?: TRequestStreamMethod;
     outgoingNotify: TNotifyMethod;
   }) => {
     const { handleRequest } = sideBDefinitions.requests.createServer(incomingRequests);
     const { handleNotification } = sideBDefinitions.notifications.createServer(incomingNotifications);
 
     const outgoingRequests = sideADefinitions.requests.createClient({
-      request: outgoingRequest
+      request: outgoingRequest,
+      requestStream: outgoingRequestStream
     });
 
     const outgoingNotifications = sideADefinitions.notifications.createClient({
@@ -38,10 +38,10 @@ const createRpcNotificationsDefinition = <const TMap extends RpcNotificationsDef
       parseError: Error;
     }) => void;
   }) => {
-    const handleNotification: TNotificationHandler = ({ method, params }) => {
+    const handleNotification: TNotificationHandler = ({ method, params, extensions }) => {
       const definition = definitions[method];
       if (!definition) {
-        handleUnknownNotification({ method, params });
+        handleUnknownNotification({ method, params, extensions });
         return;
       }
 
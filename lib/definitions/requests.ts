@@ -1,35 +1,90 @@
 import { type TObjectParser } from "./parser.ts";
+import { mapAsyncIterator } from "../stream.ts";
+import { createRemoteError, type TRequestError } from "../errors.ts";
+import type { TTraceContext } from "../tracing.ts";
 import type {
+  TJsonRpcExtensions,
   TJsonRpcParameters,
+  TJsonRpcParameterValue,
+  TProgressListener,
   TRequestHandler,
   TRequestHandlerResponse,
   TRequestMethod,
-  TRequestResponseValue
+  TRequestResponseValue,
+  TRequestStreamMethod,
+  TRetryPolicy
 } from "../types.ts";
 
-type RpcRequestDefinition<TParams = unknown, TResult = unknown> = {
+type RpcRequestDefinition<TParams = unknown, TResult = unknown, TProgress = unknown> = {
   paramsParser: TObjectParser<TParams>;
   resultParser: TObjectParser<TResult>;
+  progressParser?: TObjectParser<TProgress>;
+  itemParser?: undefined;
+  // default timeout for this method, overridable per call
+  timeoutMs?: number;
+  // marks the method as idempotent, failed attempts are then repeated according to the policy
+  retry?: TRetryPolicy;
 };
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type RpcRequestsDefinitionMap = Record<string, RpcRequestDefinition<any, any>>;
+type RpcStreamRequestDefinition<TParams = unknown, TItem = unknown, TProgress = unknown> = {
+  paramsParser: TObjectParser<TParams>;
+  resultParser?: undefined;
+  progressParser?: TObjectParser<TProgress>;
+  itemParser: TObjectParser<TItem>;
+};
+
+type RpcRequestsDefinitionMap = Record<
+  string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  RpcRequestDefinition<any, any, any> | RpcStreamRequestDefinition<any, any, any>
+>;
 
 type ExtractParserType<T> = T extends TObjectParser<infer U> ? U : never;
 
+type ExtractResultType<T> = T extends { resultParser: TObjectParser<infer U> } ? U : never;
+
+type ExtractProgressType<T> = T extends { progressParser: TObjectParser<infer U> } ? U : never;
+
+type ExtractItemType<T> = T extends { itemParser: TObjectParser<infer U> } ? U : never;
+
+type IsStreamDefinition<T> = T extends { itemParser: object } ? true : false;
+
 type ServerHandlers<TMap extends RpcRequestsDefinitionMap> = {
   [K in keyof TMap]: (
-    params: ExtractParserType<TMap[K]["paramsParser"]>
-  ) => Promise<ExtractParserType<TMap[K]["resultParser"]>>;
+    params: ExtractParserType<TMap[K]["paramsParser"]>,
+    context: {
+      signal: AbortSignal;
+      deadline: number | undefined;
+      traceContext: TTraceContext | undefined;
+      extensions: TJsonRpcExtensions | undefined;
+      reportProgress: (progress: ExtractProgressType<TMap[K]>) => void;
+    }
+  ) => IsStreamDefinition<TMap[K]> extends true
+    ? AsyncIterable<ExtractItemType<TMap[K]>>
+    : Promise<ExtractResultType<TMap[K]>>;
 };
 
 type ClientMethods<TMap extends RpcRequestsDefinitionMap> = {
-  [K in keyof TMap]: (
-    params: ExtractParserType<TMap[K]["paramsParser"]>
-  ) => Promise<
-    | { error: Error; result: undefined }
-    | { error: undefined; result: ExtractParserType<TMap[K]["resultParser"]> }
-  >;
+  [K in keyof TMap]: IsStreamDefinition<TMap[K]> extends true
+    ? (
+      params: ExtractParserType<TMap[K]["paramsParser"]>,
+      options?: {
+        signal?: AbortSignal;
+        traceContext?: TTraceContext;
+      }
+    ) => AsyncIterableIterator<ExtractItemType<TMap[K]>>
+    : (
+      params: ExtractParserType<TMap[K]["paramsParser"]>,
+      options?: {
+        onProgress?: (progress: ExtractProgressType<TMap[K]>) => void;
+        timeoutMs?: number;
+        traceContext?: TTraceContext;
+      }
+    ) => Promise<
+      // a TRequestError, or a plain Error if the result could not be parsed
+      | { error: TRequestError | Error; result: undefined }
+      | { error: undefined; result: ExtractResultType<TMap[K]> }
+    >;
 };
 
 const createRpcRequestsDefinition = <const TMap extends RpcRequestsDefinitionMap>(
@@ -48,15 +103,18 @@ const createRpcRequestsDefinition = <const TMap extends RpcRequestsDefinitionMap
       parseError: Error;
     }) => Promise<TRequestHandlerResponse>;
   }) => {
-    const handleRequest: TRequestHandler = async ({ method, params }) => {
+    // eslint-disable-next-line max-statements
+    const handleRequest: TRequestHandler = (args) => {
+      const { method, params, signal, deadline, traceContext, extensions, reportProgress } = args;
+
       const definition = definitions[method];
       if (!definition) {
-        return await handleUnknownRequest({ method, params });
+        return handleUnknownRequest(args);
       }
 
       const parseResult = definition.paramsParser.parse({ raw: params });
       if (parseResult.error) {
-        return await handleParametersParseError({
+        return handleParametersParseError({
           method,
           params,
           parseError: parseResult.error
@@ -64,15 +122,45 @@ const createRpcRequestsDefinition = <const TMap extends RpcRequestsDefinitionMap
       }
 
       const handler = requests[method as keyof TMap];
-      const result = await handler(
-        parseResult.value as ExtractParserType<TMap[keyof TMap]["paramsParser"]>
+      const handlerResult = handler(
+        parseResult.value as ExtractParserType<TMap[keyof TMap]["paramsParser"]>,
+        {
+          signal,
+          deadline,
+          traceContext,
+          extensions,
+          reportProgress: (progress) => {
+            if (definition.progressParser === undefined) {
+              throw Error(`no progress parser defined for method "${method}"`);
+            }
+
+            const value = definition.progressParser.format({ value: progress });
+            reportProgress({ value: value as TJsonRpcParameterValue });
+          }
+        }
       );
-      const formattedResult = definition.resultParser.format({ value: result });
 
-      return {
-        result: formattedResult as TRequestResponseValue,
-        error: undefined
-      };
+      const { itemParser, resultParser } = definition;
+
+      if (itemParser !== undefined) {
+        const iterable = handlerResult as AsyncIterable<unknown>;
+
+        return mapAsyncIterator({
+          iterator: iterable[Symbol.asyncIterator](),
+          map: ({ item }) => {
+            return itemParser.format({ value: item }) as TJsonRpcParameterValue;
+          }
+        });
+      }
+
+      return (handlerResult as Promise<unknown>).then((result): TRequestHandlerResponse => {
+        const formattedResult = resultParser.format({ value: result });
+
+        return {
+          result: formattedResult as TRequestResponseValue,
+          error: undefined
+        };
+      });
     };
 
     return {
@@ -80,39 +168,137 @@ const createRpcRequestsDefinition = <const TMap extends RpcRequestsDefinitionMap
     };
   };
 
-  const createClient = ({ request }: { request: TRequestMethod }) => {
-    const client = {} as ClientMethods<TMap>;
+  const createRequestClientMethod = ({
+    method,
+    definition,
+    request
+  }: {
+    method: string;
+    definition: RpcRequestDefinition;
+    request: TRequestMethod;
+  }) => {
+    // eslint-disable-next-line max-statements
+    return async (
+      params: unknown,
+      {
+        onProgress,
+        timeoutMs,
+        traceContext
+      }: { onProgress?: (progress: unknown) => void, timeoutMs?: number, traceContext?: TTraceContext } = {}
+    ) => {
+      const formattedParams = definition.paramsParser.format({ value: params });
 
-    for (const method of Object.keys(definitions) as Array<keyof TMap & string>) {
-      const definition = definitions[method];
-      // eslint-disable-next-line immutable/no-mutation
-      (client as Record<string, unknown>)[method] = async (params: unknown) => {
-        const formattedParams = definition.paramsParser.format({ value: params });
-        const { error: requestError, response } = await request({
-          method,
-          params: formattedParams as Record<string, unknown>
-        });
-        if (requestError !== undefined) {
-          return {
-            error: Error("failed to execute request", { cause: requestError }),
-            result: undefined
-          };
-        }
-        const { error: parseError, value } = definition.resultParser.parse({
-          raw: response.result
-        });
-        if (parseError !== undefined) {
-          return {
-            error: Error("failed to parse result", { cause: parseError }),
-            result: undefined
-          };
-        }
+      const { progressParser } = definition;
+      const handleProgress: TProgressListener | undefined = onProgress === undefined || progressParser === undefined
+        ? undefined
+        : ({ value }) => {
+          const { error: progressParseError, value: progress } = progressParser.parse({ raw: value });
+          if (progressParseError !== undefined) {
+            // progress is informational only, malformed updates are dropped
+            return;
+          }
 
+          onProgress(progress);
+        };
+
+      const { error: requestError, response } = await request({
+        method,
+        params: formattedParams as Record<string, unknown>,
+        timeoutMs: timeoutMs ?? definition.timeoutMs,
+        onProgress: handleProgress,
+        traceContext,
+        retry: definition.retry
+      });
+      // failures of the request are passed on unchanged, so their kind can be told apart
+      if (requestError !== undefined) {
+        return {
+          error: requestError,
+          result: undefined
+        };
+      }
+
+      if (response.error !== undefined) {
+        return {
+          error: createRemoteError({ error: response.error }),
+          result: undefined
+        };
+      }
+      const { error: parseError, value } = definition.resultParser.parse({
+        raw: response.result
+      });
+      if (parseError !== undefined) {
         return {
-          error: undefined,
-          result: value
+          error: Error("failed to parse result", { cause: parseError }),
+          result: undefined
         };
+      }
+
+      return {
+        error: undefined,
+        result: value
       };
+    };
+  };
+
+  const createStreamClientMethod = ({
+    method,
+    definition,
+    requestStream
+  }: {
+    method: string;
+    definition: RpcStreamRequestDefinition;
+    requestStream: TRequestStreamMethod | undefined;
+  }) => {
+    return (
+      params: unknown,
+      { signal, traceContext }: { signal?: AbortSignal, traceContext?: TTraceContext } = {}
+    ) => {
+      if (requestStream === undefined) {
+        throw Error(`streaming method "${method}" requires requestStream to be given to createClient`);
+      }
+
+      const formattedParams = definition.paramsParser.format({ value: params });
+
+      const iterator = requestStream({
+        method,
+        params: formattedParams as Record<string, unknown>,
+        signal,
+        traceContext
+      });
+
+      return mapAsyncIterator({
+        iterator,
+        map: ({ item }) => {
+          const { error: parseError, value } = definition.itemParser.parse({ raw: item });
+          if (parseError !== undefined) {
+            throw Error("failed to parse stream item", { cause: parseError });
+          }
+
+          return value;
+        }
+      });
+    };
+  };
+
+  const createClient = ({
+    request,
+    requestStream
+  }: {
+    request: TRequestMethod;
+    // required for methods defined with an itemParser
+    requestStream?: TRequestStreamMethod;
+  }) => {
+    const client = {} as ClientMethods<TMap>;
+
+    for (const method of Object.keys(definitions) as Array<keyof TMap & string>) {
+      const definition = definitions[method];
+
+      const clientMethod = definition.itemParser === undefined
+        ? createRequestClientMethod({ method, definition, request })
+        : createStreamClientMethod({ method, definition, requestStream });
+
+      // eslint-disable-next-line immutable/no-mutation
+      (client as Record<string, unknown>)[method] = clientMethod;
     }
 
     return client;
@@ -0,0 +1,68 @@
+type TMappedError = {
+  message: string;
+  data?: unknown;
+};
+
+// shapes the internal error response sent when a request handler fails
+type TErrorMapper = (args: { error: unknown, method: string }) => TMappedError;
+
+type TSerializedError = {
+  message: string;
+  stack: string | undefined;
+};
+
+const maxCauseDepth = 16;
+
+const serializeError = ({ error }: { error: unknown }): TSerializedError => {
+  if (error instanceof Error) {
+    return {
+      message: error.message,
+      stack: error.stack
+    };
+  }
+
+  return {
+    message: String(error),
+    stack: undefined
+  };
+};
+
+const collectCauses = ({ error }: { error: unknown }): TSerializedError[] => {
+  let causes: TSerializedError[] = [];
+  let current = error instanceof Error ? error.cause : undefined;
+
+  // the depth limit protects against cyclic cause chains
+  while (current !== undefined && causes.length < maxCauseDepth) {
+    causes = [...causes, serializeError({ error: current })];
+    current = current instanceof Error ? current.cause : undefined;
+  }
+
+  return causes;
+};
+
+const createErrorMapper = ({ development }: { development: boolean }): TErrorMapper => {
+  return ({ error }) => {
+    if (!development) {
+      return {
+        message: "Internal error"
+      };
+    }
+
+    return {
+      message: "Internal error",
+      data: {
+        ...serializeError({ error }),
+        causes: collectCauses({ error })
+      }
+    };
+  };
+};
+
+export {
+  createErrorMapper
+};
+
+export type {
+  TErrorMapper,
+  TMappedError
+};
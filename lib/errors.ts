@@ -0,0 +1,67 @@
+import type { TJsonRpcError } from "./types.ts";
+
+type TTimeoutError = Error & { kind: "timeout" };
+type TCancelledError = Error & { kind: "cancelled" };
+type TConnectionClosedError = Error & { kind: "connection-closed" };
+type TSendFailedError = Error & { kind: "send-failed" };
+// an error response of the peer, code and data are taken over unchanged
+type TRemoteError = Error & { kind: "remote-error", code: number, data: unknown };
+
+type TRequestError = TTimeoutError | TCancelledError | TConnectionClosedError | TSendFailedError | TRemoteError;
+
+type TRequestErrorKind = TRequestError["kind"];
+
+const withKind = <T extends object>({ error, fields }: { error: Error, fields: T }): Error & T => {
+  // eslint-disable-next-line fp/no-mutating-assign
+  return Object.assign(error, fields);
+};
+
+const createTimeoutError = (): TTimeoutError => {
+  return withKind({ error: Error("timeout"), fields: { kind: "timeout" as const } });
+};
+
+const createCancelledError = ({ reason }: { reason: unknown }): TCancelledError => {
+  return withKind({ error: Error("request cancelled", { cause: reason }), fields: { kind: "cancelled" as const } });
+};
+
+const createConnectionClosedError = (): TConnectionClosedError => {
+  return withKind({ error: Error("connection closed"), fields: { kind: "connection-closed" as const } });
+};
+
+const createSendFailedError = ({ cause }: { cause: unknown }): TSendFailedError => {
+  return withKind({ error: Error("failed to send request", { cause }), fields: { kind: "send-failed" as const } });
+};
+
+const createRemoteError = ({ error }: { error: TJsonRpcError }): TRemoteError => {
+  return withKind({
+    error: Error(error.message),
+    fields: {
+      kind: "remote-error" as const,
+      code: error.code,
+      data: error.data
+    }
+  });
+};
+
+const isRequestError = (error: unknown): error is TRequestError => {
+  return error instanceof Error && typeof (error as Partial<TRequestError>).kind === "string";
+};
+
+export {
+  createTimeoutError,
+  createCancelledError,
+  createConnectionClosedError,
+  createSendFailedError,
+  createRemoteError,
+  isRequestError
+};
+
+export type {
+  TTimeoutError,
+  TCancelledError,
+  TConnectionClosedError,
+  TSendFailedError,
+  TRemoteError,
+  TRequestError,
+  TRequestErrorKind
+};
@@ -0,0 +1,32 @@
+import type { TJsonRpcMandatoryId } from "./types.ts";
+
+type TIdGenerator = () => TJsonRpcMandatoryId;
+
+const createCounterIdGenerator = ({ prefix }: { prefix?: string } = {}): TIdGenerator => {
+  let counter = 0;
+
+  return () => {
+    const id = counter;
+    counter += 1;
+
+    if (prefix === undefined) {
+      return id;
+    }
+
+    return `${prefix}${id}`;
+  };
+};
+
+// numeric 1 and string "1" are different ids, so they must not share a record key
+const idKey = ({ id }: { id: TJsonRpcMandatoryId }): string => {
+  return `${typeof id}:${id}`;
+};
+
+export {
+  createCounterIdGenerator,
+  idKey
+};
+
+export type {
+  TIdGenerator
+};
@@ -1,40 +1,127 @@
 import { createJrpc } from "./jrpc.ts";
-import { createWebSocketJrpc, createJsonParser } from "./websocket.ts";
+import { createWebSocketJrpc, createWebSocketTransport } from "./websocket.ts";
+import { createTransportJrpc, createJsonParser } from "./transport.ts";
 import { createRpcRequestsDefinition } from "./definitions/requests.ts";
 import { createRpcNotificationsDefinition } from "./definitions/notification.ts";
 import { createCombined } from "./definitions/combined.ts";
+import { createErrorMapper } from "./error-mapper.ts";
+import { createCounterIdGenerator } from "./ids.ts";
+import { createTracer, createInMemorySpanExporter } from "./tracing.ts";
+import { isRequestError } from "./errors.ts";
 
 import type { TObjectParser } from "./definitions/parser.ts";
+import type { TErrorMapper } from "./error-mapper.ts";
+import type { TIdGenerator } from "./ids.ts";
+import type { TSpan, TSpanExporter, TSpanKind, TSpanTreeNode, TTraceContext, TTracer } from "./tracing.ts";
 import type { TWebSocketMessageParser } from "./websocket.ts";
+import type { TMessageParser, TTransport, TTransportData } from "./transport.ts";
 import type {
+  TAbandonedRequest,
+  TCancelledError,
+  TConnectionClosedError,
+  TRemoteError,
+  TRequestError,
+  TRequestErrorKind,
+  TSendFailedError,
+  TTimeoutError,
+  TBatch,
+  TCoercionStrictness,
+  TConnectionEvent,
+  TConnectionEventListener,
+  TConnectionStats,
+  TDispatchMode,
+  TDrainResult,
   TJrpc,
+  TJsonRpcBatch,
+  TJsonRpcExtensions,
+  TJsonRpcProtocolVersion,
+  TJsonRpc1Message,
+  TJrpcTransportOptions,
   TJsonRpcMessage,
+  TLateResponseReason,
+  TLatencyPercentiles,
+  TMessageLimits,
+  TMiddleware,
+  TMiddlewareDirection,
   TNotificationHandler,
   TNotifyMethod,
+  TProgressListener,
+  TReportProgress,
   TRequestHandler,
+  TRequestInfo,
   TRequestResponse,
   TRequestMethod,
+  TRequestStreamMethod,
+  TRetryPolicy,
   TRequestResult
 } from "./jrpc.ts";
 
 export {
   createJrpc,
+  createTransportJrpc,
   createWebSocketJrpc,
+  createWebSocketTransport,
   createJsonParser,
   createRpcRequestsDefinition,
   createRpcNotificationsDefinition,
-  createCombined
+  createCombined,
+  createErrorMapper,
+  createCounterIdGenerator,
+  createTracer,
+  createInMemorySpanExporter,
+  isRequestError
 };
 
 export type {
   TObjectParser,
+  TErrorMapper,
+  TIdGenerator,
+  TSpan,
+  TSpanExporter,
+  TSpanKind,
+  TSpanTreeNode,
+  TTraceContext,
+  TTracer,
   TWebSocketMessageParser,
+  TMessageParser,
+  TTransport,
+  TTransportData,
+  TAbandonedRequest,
+  TCancelledError,
+  TConnectionClosedError,
+  TRemoteError,
+  TRequestError,
+  TRequestErrorKind,
+  TSendFailedError,
+  TTimeoutError,
+  TBatch,
+  TCoercionStrictness,
+  TConnectionEvent,
+  TConnectionEventListener,
+  TConnectionStats,
+  TDispatchMode,
+  TDrainResult,
   TJrpc,
+  TJsonRpcBatch,
+  TJsonRpcExtensions,
+  TJsonRpcProtocolVersion,
+  TJsonRpc1Message,
+  TJrpcTransportOptions,
   TJsonRpcMessage,
+  TLateResponseReason,
+  TLatencyPercentiles,
+  TMessageLimits,
+  TMiddleware,
+  TMiddlewareDirection,
   TNotificationHandler,
   TNotifyMethod,
+  TProgressListener,
+  TReportProgress,
   TRequestHandler,
+  TRequestInfo,
   TRequestResponse,
   TRequestMethod,
+  TRequestStreamMethod,
+  TRetryPolicy,
   TRequestResult
 };
@@ -1,69 +1,783 @@
-import { coerceJrpcMessage } from "./coerce.ts";
+import { coerceJrpcMessage, looksLikeResponse, recoverId } from "./coerce.ts";
+import { createAsyncItemQueue, isAsyncIterable } from "./stream.ts";
+import { runMiddlewares } from "./middleware.ts";
+import { createErrorMapper, type TErrorMapper } from "./error-mapper.ts";
+import { createCounterIdGenerator, idKey, type TIdGenerator } from "./ids.ts";
+import {
+  createStatsCollector,
+  type TConnectionEvent,
+  type TConnectionEventListener,
+  type TConnectionStats,
+  type TLatencyPercentiles,
+  type TRequestInfo
+} from "./stats.ts";
+import { withRetry } from "./retry.ts";
+import { downgradeToJrpc1Message, namedParamsFromJrpc1 } from "./jrpc1.ts";
+import { checkMessageLimits, type TMessageLimits } from "./limits.ts";
+import {
+  createCancelledError,
+  createConnectionClosedError,
+  createRemoteError,
+  createSendFailedError,
+  createTimeoutError,
+  type TCancelledError,
+  type TConnectionClosedError,
+  type TRemoteError,
+  type TRequestError,
+  type TRequestErrorKind,
+  type TSendFailedError,
+  type TTimeoutError
+} from "./errors.ts";
+import { formatTraceparent, parseTraceparent, type TTraceContext, type TTracer } from "./tracing.ts";
 import type {
+  TAbandonedRequest,
+  TBatch,
+  TDispatchMode,
+  TDrainResult,
+  TJsonRpcBatch,
+  TCoercionStrictness,
+  TJsonRpcError,
+  TJsonRpcExtensions,
   TJsonRpcMandatoryId,
   TJsonRpcMessage,
+  TJsonRpcMeta,
   TJsonRpcParameters,
+  TJsonRpcProtocolVersion,
+  TJsonRpc1Message,
+  TJrpcTransportOptions,
+  TJsonRpcResponse,
+  TLateResponseReason,
+  TMiddleware,
+  TMiddlewareDirection,
   TNotificationHandler,
   TNotifyMethod,
+  TProgressListener,
+  TReportProgress,
   TRequestHandler,
+  TRequestHandlerResponse,
   TRequestMethod,
   TRequestResponse,
-  TRequestResult
+  TRequestResult,
+  TRequestStreamMethod,
+  TRetryPolicy,
+  TStreamItemListener
 } from "./types.ts";
 
 type TPendingRequestHandle = {
+  id: TJsonRpcMandatoryId;
+  method: string;
+  startedAt: number;
   resolve: (args: TRequestResult) => void;
+  onProgress: TProgressListener | undefined;
+  onStreamItem: TStreamItemListener | undefined;
+};
+
+type TRunningRequestHandle = {
+  id: TJsonRpcMandatoryId;
+  method: string;
+  startedAt: number;
+  abortController: AbortController;
+};
+
+type TTombstone = {
+  method: string;
+  reason: TLateResponseReason;
+};
+
+type TQueuedRequest = {
+  requestKey: string;
+  dispatch: () => void;
+};
+
+type TQueuedHandler = {
+  method: string;
+  // handlers sharing a key run one after another in arrival order
+  orderingKey: string | undefined;
+  run: () => void;
+};
+
+type TRespond = (args: { response: TJsonRpcResponse | undefined }) => void;
+
+type TDispatchResult = {
+  error: Error | undefined;
+  // whether respond will be called later on
+  awaitsResponse: boolean;
+};
+
+// longer delays overflow the 32 bit timer and fire right away
+const maxTimerDelayMs = 2 ** 31 - 1;
+
+// timeouts too long for a timer are treated like none, but infinite ones are a mistake
+const assertFiniteTimeout = ({ name, timeoutMs }: { name: string, timeoutMs: number | undefined }) => {
+  if (timeoutMs !== undefined && !Number.isFinite(timeoutMs)) {
+    throw Error(`${name} must be a finite number of milliseconds`);
+  }
+};
+
+// stuck handlers or outgoing requests without a timeout must not keep drain from closing the connection
+const defaultDrainTimeoutMs = 30_000;
+
+const isRequestMessage = ({ message }: { message: TJsonRpcMessage }) => {
+  return message.method !== undefined && message.id !== undefined;
+};
+
+const isResponseMessage = ({ message }: { message: TJsonRpcMessage }) => {
+  return message.method === undefined;
 };
 
 const createJrpc = ({
-  sendMessage,
+  sendMessage: sendMessageToTransportFromArgs,
+  sendBatch: sendBatchToTransportFromArgs,
   handleRequest,
-  handleNotification
-}: {
-  sendMessage: (args: { message: TJsonRpcMessage }) => void;
+  handleNotification,
+  cancelNotificationMethod,
+  progressNotificationMethod,
+  streamNotificationMethod,
+  middlewares = [],
+  mapError = createErrorMapper({ development: false }),
+  tolerant = false,
+  shouldDisconnect = () => {
+    return false;
+  },
+  onUnmatchedError,
+  idGenerator = createCounterIdGenerator(),
+  defaultTimeoutMs,
+  propagateDeadline = false,
+  maxInFlight = Infinity,
+  onOutgoingQueueDepthChange,
+  maxRunningHandlers = Infinity,
+  maxRunningHandlersPerMethod = {},
+  maxQueuedHandlers = Infinity,
+  serverBusyError = { code: -32000, message: "Server busy" },
+  drainingError = { code: -32000, message: "Server shutting down" },
+  latencySampleSize = 100,
+  tracer,
+  duplicateRequestPolicy = "reject",
+  replayCacheSize = 100,
+  dispatchMode = { type: "concurrent" },
+  protocolVersion,
+  strictness = "strict",
+  limits = {},
+  tombstoneSize = 100,
+  onLateResponse
+}: TJrpcTransportOptions & {
   handleRequest: TRequestHandler;
   handleNotification: TNotificationHandler;
+  // e.g. "$/cancelRequest", sent with params { id } when an outgoing request is aborted,
+  // incoming notifications with this method abort the signal of the matching request handler
+  cancelNotificationMethod?: string;
+  // e.g. "$/progress", sent with params { token, value } where the token is the request id
+  progressNotificationMethod?: string;
+  // e.g. "$/stream", sent with params { token, value } for each item of a streaming handler
+  streamNotificationMethod?: string;
+  // applied in order to every inbound message before dispatching and every outbound message before sending
+  middlewares?: TMiddleware[];
+  // shapes the -32603 internal error response sent when a request handler throws or rejects
+  mapError?: TErrorMapper;
+  // in tolerant mode protocol violations are answered with JSON-RPC errors where possible,
+  // and receivedMessage only reports them once shouldDisconnect decides so
+  tolerant?: boolean;
+  shouldDisconnect?: (args: { error: Error, violationCount: number }) => boolean;
+  // receives error responses with a null id, sent by peers for requests they could not read,
+  // without it such responses are reported as protocol violation
+  onUnmatchedError?: (args: { error: TJsonRpcError }) => void;
+  // ids of outgoing requests, defaults to a counter starting at 0, requests getting a still pending id fail as send-failed
+  idGenerator?: TIdGenerator;
+  // applies to requests that do not specify timeoutMs themselves, streams are excluded
+  defaultTimeoutMs?: number;
+  // sends the absolute deadline of requests with a timeout along in $meta, both peers need to support it
+  propagateDeadline?: boolean;
+  // requests beyond this many unanswered ones wait in a local queue until earlier ones settle
+  maxInFlight?: number;
+  onOutgoingQueueDepthChange?: (args: { depth: number }) => void;
+  // incoming requests beyond these limits wait until a running handler finishes
+  maxRunningHandlers?: number;
+  maxRunningHandlersPerMethod?: Record<string, number>;
+  // requests that find the wait queue full are answered with serverBusyError, 0 rejects instead of queueing
+  maxQueuedHandlers?: number;
+  serverBusyError?: TJsonRpcError;
+  // answers incoming requests that arrive while the connection drains
+  drainingError?: TJsonRpcError;
+  // latency percentiles are computed over this many recent requests per method
+  latencySampleSize?: number;
+  // opens a span per outgoing and incoming request, the context travels as traceparent in $meta
+  tracer?: TTracer;
+  // applies to incoming requests reusing the id of a running request: reject answers with an
+  // Invalid Request error, ignore drops them and replay answers them with the response of the original,
+  // which is also cached for the replayCacheSize most recently answered requests
+  duplicateRequestPolicy?: "reject" | "ignore" | "replay";
+  replayCacheSize?: number;
+  // whether incoming request handlers run concurrently, one after another or one after another per key
+  dispatchMode?: TDispatchMode;
+  // how unknown fields and other deviations from the specification are treated in received messages
+  strictness?: TCoercionStrictness;
+  // received messages exceeding these are treated like invalid requests, by default nothing is limited
+  limits?: TMessageLimits;
+  // ids of this many recently timed out or cancelled requests are remembered, responses arriving for them
+  // later are passed to onLateResponse or dropped instead of being reported as protocol violation
+  tombstoneSize?: number;
+  onLateResponse?: (args: {
+    id: TJsonRpcMandatoryId,
+    method: string,
+    reason: TLateResponseReason,
+    response: TRequestResponse
+  }) => void;
 }) => {
 
+  assertFiniteTimeout({ name: "defaultTimeoutMs", timeoutMs: defaultTimeoutMs });
+
   let closed = false;
+  let draining = false;
+
+  // called whenever a request settles while draining
+  let checkDrained = () => {};
+
+  const statsCollector = createStatsCollector({ latencySampleSize });
+
+  const sendMessageToTransport = ({ message }: { message: TJsonRpcMessage }) => {
+    statsCollector.countMessages({ direction: "outbound", count: 1 });
+
+    if (protocolVersion === "1.0") {
+      sendMessageToTransportFromArgs({ message: downgradeToJrpc1Message({ message }) });
+      return;
+    }
+
+    sendMessageToTransportFromArgs({ message });
+  };
+
+  const sendBatchToTransport = ({ messages }: { messages: TJsonRpcBatch }) => {
+    // JSON-RPC 1.0 has no batches
+    if (protocolVersion === "1.0") {
+      messages.forEach((message) => {
+        sendMessageToTransport({ message });
+      });
+      return;
+    }
+
+    if (sendBatchToTransportFromArgs === undefined) {
+      throw Error("sending batches requires the sendBatch option");
+    }
+
+    statsCollector.countMessages({ direction: "outbound", count: messages.length });
+    sendBatchToTransportFromArgs({ messages });
+  };
+
+  const outboundShortCircuit = ({
+    message,
+    error,
+    deliver
+  }: {
+    message: TJsonRpcMessage,
+    error: TJsonRpcError,
+    deliver: (args: { message: TJsonRpcMessage }) => void
+  }) => {
+    if (isRequestMessage({ message })) {
+      // the request is not sent, but answered locally
+      // eslint-disable-next-line no-use-before-define
+      receivedResponse({
+        id: message.id as TJsonRpcMandatoryId,
+        response: { result: undefined, error }
+      });
+      return;
+    }
+
+    if (isResponseMessage({ message })) {
+      deliver({ message: { jsonrpc: "2.0", id: message.id as TJsonRpcMandatoryId, error } });
+      return;
+    }
+
+    // notifications can not be answered, so they are dropped
+  };
+
+  const runOutboundMiddlewares = ({
+    message,
+    deliver
+  }: {
+    message: TJsonRpcMessage,
+    deliver: (args: { message: TJsonRpcMessage }) => void
+  }) => {
+    runMiddlewares({
+      middlewares,
+      direction: "outbound",
+      message,
+      final: deliver,
+      respondWithError: ({ error }) => {
+        outboundShortCircuit({ message, error, deliver });
+      }
+    });
+  };
+
+  const sendMessage = ({ message }: { message: TJsonRpcMessage }) => {
+    runOutboundMiddlewares({ message, deliver: sendMessageToTransport });
+  };
+
+  const sendBatch = ({ messages }: { messages: TJsonRpcBatch }) => {
+    let collecting = true;
+    let collectedMessages: TJsonRpcBatch = [];
+
+    messages.forEach((message) => {
+      runOutboundMiddlewares({
+        message,
+        deliver: ({ message: deliveredMessage }) => {
+          if (!collecting) {
+            // middlewares that pass on messages later on can not join the batch anymore
+            sendMessageToTransport({ message: deliveredMessage });
+            return;
+          }
+
+          collectedMessages = [...collectedMessages, deliveredMessage];
+        }
+      });
+    });
+
+    collecting = false;
+
+    if (collectedMessages.length === 0) {
+      return;
+    }
+
+    sendBatchToTransport({ messages: collectedMessages });
+  };
+
+  let runningRequests: Record<string, TRunningRequestHandle> = {};
+
+  // forwards the items as notifications, the final response marks the end of the stream,
+  // failures of the producer are rejected and answered like failing handlers
+  const streamToPeer = async ({
+    id,
+    iterable,
+    signal
+  }: {
+    id: TJsonRpcMandatoryId,
+    iterable: AsyncIterable<unknown>,
+    signal: AbortSignal
+  }): Promise<TRequestHandlerResponse> => {
+    if (streamNotificationMethod === undefined) {
+      throw Error("streaming is not enabled on this connection");
+    }
+
+    const iterator = iterable[Symbol.asyncIterator]();
+
+    const aborted = new Promise<undefined>((resolve) => {
+      if (signal.aborted) {
+        resolve(undefined);
+        return;
+      }
+
+      signal.addEventListener("abort", () => {
+        resolve(undefined);
+      }, { once: true });
+    });
+
+    // producers may wait long for their next item, e.g. when tailing a log, so a cancellation does not wait for it
+    const nextItem = () => {
+      const nextPromise = iterator.next();
+      // once cancelled, a failure of the producer is of no interest anymore
+      nextPromise.catch(() => {});
+      return Promise.race([nextPromise, aborted]);
+    };
+
+    let next = await nextItem();
+    while (next !== undefined && next.done !== true && !signal.aborted) {
+      // eslint-disable-next-line no-use-before-define
+      notify({ method: streamNotificationMethod, params: { token: id, value: next.value } });
+      next = await nextItem();
+    }
+
+    if (next === undefined || next.done !== true) {
+      // stops the producer, without waiting for it to reach its next yield
+      iterator.return?.().catch(() => {});
+    }
+
+    return {
+      result: null,
+      error: undefined
+    };
+  };
+
+  let runningHandlerCount = 0;
+  let runningHandlerCountByMethod: Record<string, number> = {};
+  let runningOrderingKeys: Record<string, true> = {};
+  let queuedHandlers: TQueuedHandler[] = [];
+
+  const orderingKeyOf = ({ method, params }: { method: string, params: TJsonRpcParameters | undefined }) => {
+    if (dispatchMode.type === "sequential") {
+      return "";
+    }
+
+    if (dispatchMode.type === "keyed") {
+      return dispatchMode.key({ method, params });
+    }
+
+    return undefined;
+  };
+
+  const canRunHandler = ({ method, orderingKey }: { method: string, orderingKey: string | undefined }) => {
+    const methodLimit = maxRunningHandlersPerMethod[method] ?? Infinity;
+    const methodCount = runningHandlerCountByMethod[method] ?? 0;
+    const orderingKeyBusy = orderingKey !== undefined && runningOrderingKeys[orderingKey] !== undefined;
+
+    return runningHandlerCount < maxRunningHandlers && methodCount < methodLimit && !orderingKeyBusy;
+  };
+
+  const startHandler = ({ method, orderingKey, run }: TQueuedHandler) => {
+    runningHandlerCount += 1;
+    runningHandlerCountByMethod = {
+      ...runningHandlerCountByMethod,
+      [method]: (runningHandlerCountByMethod[method] ?? 0) + 1
+    };
 
+    if (orderingKey !== undefined) {
+      runningOrderingKeys = { ...runningOrderingKeys, [orderingKey]: true };
+    }
+
+    run();
+  };
+
+  const queuedAhead = ({ orderingKey, before }: { orderingKey: string | undefined, before: number }) => {
+    return orderingKey !== undefined && queuedHandlers.slice(0, before).some((queuedHandler) => {
+      return queuedHandler.orderingKey === orderingKey;
+    });
+  };
+
+  // a queued request blocked by its method limit does not hold back requests for other methods,
+  // but never overtakes an earlier request with the same ordering key
+  const startQueuedHandlers = () => {
+    const queuedHandler = queuedHandlers.find(({ method, orderingKey }, idx) => {
+      return canRunHandler({ method, orderingKey }) && !queuedAhead({ orderingKey, before: idx });
+    });
+    if (queuedHandler === undefined) {
+      return;
+    }
+
+    queuedHandlers = queuedHandlers.filter((otherQueuedHandler) => {
+      return otherQueuedHandler !== queuedHandler;
+    });
+    startHandler(queuedHandler);
+
+    startQueuedHandlers();
+  };
+
+  const releaseHandler = ({ method, orderingKey }: { method: string, orderingKey: string | undefined }) => {
+    runningHandlerCount -= 1;
+    runningHandlerCountByMethod = {
+      ...runningHandlerCountByMethod,
+      [method]: runningHandlerCountByMethod[method] - 1
+    };
+
+    if (orderingKey !== undefined) {
+      const { [orderingKey]: keyToDrop, ...otherRunningOrderingKeys } = runningOrderingKeys;
+      runningOrderingKeys = otherRunningOrderingKeys;
+    }
+
+    startQueuedHandlers();
+  };
+
+  // malformed trace context is ignored, the span then starts a new trace
+  const remoteTraceContext = ({ traceparent }: { traceparent: string | undefined }) => {
+    if (traceparent === undefined) {
+      return undefined;
+    }
+
+    const { error, context } = parseTraceparent({ traceparent });
+    if (error !== undefined) {
+      return undefined;
+    }
+
+    return context;
+  };
+
+  let replayWaiters: Record<string, TRespond[]> = {};
+  let replayableResponses: Record<string, TJsonRpcResponse> = {};
+  let replayableResponseKeys: string[] = [];
+
+  // the id of a running request, or with the replay policy of a recently answered one, is reused
+  const receivedDuplicateRequest = ({ id, respond }: { id: TJsonRpcMandatoryId, respond: TRespond }) => {
+    const requestKey = idKey({ id });
+    const running = runningRequests[requestKey] !== undefined;
+    const answered = duplicateRequestPolicy === "replay" && replayableResponses[requestKey] !== undefined;
+
+    if (!running && !answered) {
+      return false;
+    }
+
+    if (duplicateRequestPolicy === "ignore") {
+      respond({ response: undefined });
+      return true;
+    }
+
+    if (duplicateRequestPolicy === "reject") {
+      respond({
+        response: {
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: -32600,
+            message: "Invalid Request",
+            data: "duplicate request id"
+          }
+        }
+      });
+      return true;
+    }
+
+    if (running) {
+      // answered together with the original request
+      replayWaiters = {
+        ...replayWaiters,
+        [requestKey]: [...(replayWaiters[requestKey] ?? []), respond]
+      };
+      return true;
+    }
+
+    respond({ response: replayableResponses[requestKey] });
+    return true;
+  };
+
+  const replayResponse = ({ id, response }: { id: TJsonRpcMandatoryId, response: TJsonRpcResponse | undefined }) => {
+    if (duplicateRequestPolicy !== "replay") {
+      return;
+    }
+
+    const requestKey = idKey({ id });
+
+    const { [requestKey]: waiters = [], ...otherReplayWaiters } = replayWaiters;
+    replayWaiters = otherReplayWaiters;
+    waiters.forEach((waiter) => {
+      waiter({ response });
+    });
+
+    // dropped results, e.g. of cancelled requests, are not worth replaying
+    if (response === undefined) {
+      return;
+    }
+
+    const keysToKeep = [...replayableResponseKeys.filter((key) => {
+      return key !== requestKey;
+    }), requestKey];
+    const [oldestKey, ...newerKeys] = keysToKeep;
+
+    if (keysToKeep.length > replayCacheSize) {
+      const { [oldestKey]: responseToDrop, ...otherReplayableResponses } = replayableResponses;
+      replayableResponses = otherReplayableResponses;
+      replayableResponseKeys = newerKeys;
+    } else {
+      replayableResponseKeys = keysToKeep;
+    }
+
+    replayableResponses = {
+      ...replayableResponses,
+      [requestKey]: response
+    };
+  };
+
+  // eslint-disable-next-line max-statements
   const receivedRequest = ({
     id,
     method,
-    params
+    params,
+    deadline,
+    traceparent,
+    extensions,
+    respond
   }: {
     id: TJsonRpcMandatoryId,
     method: string,
-    params: TJsonRpcParameters | undefined
+    params: TJsonRpcParameters | undefined,
+    deadline: number | undefined,
+    traceparent: string | undefined,
+    extensions: TJsonRpcExtensions | undefined,
+    respond: TRespond
   }): { error: Error | undefined } => {
 
-    handleRequest({ method, params }).then((response) => {
+    if (receivedDuplicateRequest({ id, respond })) {
+      return {
+        error: undefined
+      };
+    }
 
-      if (response.error !== undefined) {
-        sendMessage({
-          message: {
-            jsonrpc: "2.0",
-            id,
-            error: response.error
-          }
-        });
+    if (draining) {
+      respond({
+        response: {
+          jsonrpc: "2.0",
+          id,
+          error: drainingError
+        }
+      });
+      return {
+        error: undefined
+      };
+    }
+
+    if (deadline !== undefined && deadline <= Date.now()) {
+      // the peer has given up on this request already
+      respond({ response: undefined });
+      return {
+        error: undefined
+      };
+    }
+
+    const orderingKey = orderingKeyOf({ method, params });
+    const runnable = canRunHandler({ method, orderingKey }) &&
+      !queuedAhead({ orderingKey, before: queuedHandlers.length });
+
+    if (!runnable && queuedHandlers.length >= maxQueuedHandlers) {
+      respond({
+        response: {
+          jsonrpc: "2.0",
+          id,
+          error: serverBusyError
+        }
+      });
+      return {
+        error: undefined
+      };
+    }
+
+    const abortController = new AbortController();
+
+    const remainingMs = deadline === undefined ? Infinity : deadline - Date.now();
+
+    // deadlines too far ahead for a timer are practically none
+    const deadlineHandle = remainingMs > maxTimerDelayMs ? undefined : setTimeout(() => {
+      abortController.abort(Error("deadline exceeded"));
+    }, remainingMs);
+
+    const startedAt = Date.now();
+
+    runningRequests = {
+      ...runningRequests,
+      [idKey({ id })]: { id, method, startedAt, abortController }
+    };
+    statsCollector.requestStarted({ direction: "inbound", id, method });
+
+    const respondAndReplay: TRespond = ({ response }) => {
+      respond({ response });
+      replayResponse({ id, response });
+    };
+
+    const span = tracer?.startSpan({ name: method, kind: "server", parent: remoteTraceContext({ traceparent }) });
+
+    let finished = false;
+
+    const reportProgress: TReportProgress = ({ value }) => {
+      if (progressNotificationMethod === undefined || finished || abortController.signal.aborted) {
         return;
       }
 
-      if (response.result !== undefined) {
-        sendMessage({
-          message: {
-            jsonrpc: "2.0",
-            result: response.result,
-            id
-          }
-        });
-        return;
+      // eslint-disable-next-line no-use-before-define
+      notify({ method: progressNotificationMethod, params: { token: id, value } });
+    };
+
+    const invokeHandler = async (): Promise<TRequestHandlerResponse> => {
+      const handlerResult = handleRequest({
+        method,
+        params,
+        signal: abortController.signal,
+        deadline,
+        traceContext: span?.context,
+        extensions,
+        reportProgress
+      });
+
+      if (isAsyncIterable(handlerResult)) {
+        return await streamToPeer({ id, iterable: handlerResult, signal: abortController.signal });
       }
 
-      // send nothing if we neither have a result nor an error
-      // this is a valid case
-    });
+      return await handlerResult;
+    };
+
+    const cleanUp = ({ failed }: { failed: boolean }) => {
+      finished = true;
+      span?.end({ failed });
+      clearTimeout(deadlineHandle);
+
+      const { [idKey({ id })]: requestToDrop, ...otherRunningRequests } = runningRequests;
+      runningRequests = otherRunningRequests;
+      statsCollector.requestSettled({ direction: "inbound", id, method, durationMs: Date.now() - startedAt });
+
+      checkDrained();
+    };
+
+    const internalError = ({ error }: { error: unknown }): TJsonRpcError => {
+      try {
+        const { message, data } = mapError({ error, method });
+        return { code: -32603, message, data };
+      } catch {
+        // a failing mapper must not keep the request from being answered
+        return { code: -32603, message: "Internal error" };
+      }
+    };
+
+    const run = () => {
+      invokeHandler().catch((error: unknown): TRequestHandlerResponse => {
+        return {
+          result: undefined,
+          error: internalError({ error })
+        };
+      }).then((response) => {
+
+        try {
+          cleanUp({ failed: abortController.signal.aborted || response.error !== undefined });
+        } finally {
+          // the slot is freed even if e.g. the tracer fails
+          releaseHandler({ method, orderingKey });
+        }
+
+        if (abortController.signal.aborted) {
+          // the result is of no interest anymore, drop it
+          respondAndReplay({ response: undefined });
+          return;
+        }
+
+        if (response.error !== undefined) {
+          respondAndReplay({
+            response: {
+              jsonrpc: "2.0",
+              id,
+              error: response.error
+            }
+          });
+          return;
+        }
+
+        if (response.result !== undefined) {
+          respondAndReplay({
+            response: {
+              jsonrpc: "2.0",
+              result: response.result,
+              id
+            }
+          });
+          return;
+        }
+
+        // send nothing if we neither have a result nor an error
+        // this is a valid case
+        respondAndReplay({ response: undefined });
+      });
+    };
+
+    const queuedHandler: TQueuedHandler = { method, orderingKey, run };
+
+    if (runnable) {
+      startHandler(queuedHandler);
+    } else {
+      queuedHandlers = [...queuedHandlers, queuedHandler];
+
+      abortController.signal.addEventListener("abort", () => {
+        if (!queuedHandlers.includes(queuedHandler)) {
+          return;
+        }
+
+        // cancelled, timed out or closed before the handler got a slot
+        queuedHandlers = queuedHandlers.filter((otherQueuedHandler) => {
+          return otherQueuedHandler !== queuedHandler;
+        });
+        cleanUp({ failed: true });
+        respondAndReplay({ response: undefined });
+      }, { once: true });
+    }
 
     return {
       error: undefined
@@ -72,144 +786,893 @@ const createJrpc = ({
 
   let pendingRequests: Record<string, TPendingRequestHandle> = {};
 
+  // requests waiting for a free slot, they are already pending but not yet sent
+  let inFlightCount = 0;
+  let queuedRequests: TQueuedRequest[] = [];
+
+  let tombstones: Record<string, TTombstone> = {};
+  let tombstoneKeys: string[] = [];
+
+  // only requests that were sent get a tombstone, the peer never saw queued ones
+  const addTombstone = ({ id, tombstone }: { id: TJsonRpcMandatoryId, tombstone: TTombstone }) => {
+    const requestKey = idKey({ id });
+
+    const keysToKeep = [...tombstoneKeys.filter((key) => {
+      return key !== requestKey;
+    }), requestKey];
+    const [oldestKey, ...newerKeys] = keysToKeep;
+
+    if (keysToKeep.length > tombstoneSize) {
+      const { [oldestKey]: tombstoneToDrop, ...otherTombstones } = tombstones;
+      tombstones = otherTombstones;
+      tombstoneKeys = newerKeys;
+    } else {
+      tombstoneKeys = keysToKeep;
+    }
+
+    if (tombstoneKeys.includes(requestKey)) {
+      tombstones = {
+        ...tombstones,
+        [requestKey]: tombstone
+      };
+    }
+  };
+
+  // the peer answers each request once, so the tombstone is removed with the late response
+  const receivedLateResponse = ({ id, response }: { id: TJsonRpcMandatoryId, response: TRequestResponse }) => {
+    const requestKey = idKey({ id });
+    const { [requestKey]: tombstone, ...otherTombstones } = tombstones;
+    if (tombstone === undefined) {
+      return false;
+    }
+
+    tombstones = otherTombstones;
+    tombstoneKeys = tombstoneKeys.filter((key) => {
+      return key !== requestKey;
+    });
+
+    onLateResponse?.({ id, method: tombstone.method, reason: tombstone.reason, response });
+
+    return true;
+  };
+
   const receivedResponse = ({ id, response }: { id: TJsonRpcMandatoryId, response: TRequestResponse }): { error: Error | undefined } => {
-    const pendingRequest = pendingRequests[id];
+    const pendingRequest = pendingRequests[idKey({ id })];
     if (pendingRequest === undefined) {
+      if (receivedLateResponse({ id, response })) {
+        return {
+          error: undefined
+        };
+      }
+
       return {
         error: Error("received response for non-pending id")
       };
-    }
+    }
+
+    // requests answered by an outbound middleware are included as well
+    statsCollector.recordLatency({ method: pendingRequest.method, durationMs: Date.now() - pendingRequest.startedAt });
+
+    pendingRequest.resolve({
+      response,
+      error: undefined
+    });
+
+    return {
+      error: undefined
+    };
+  };
+
+  const receivedCancelNotification = ({ params }: { params: TJsonRpcParameters | undefined }) => {
+    const id = (params as Record<string, unknown> | undefined)?.id;
+    if (typeof id !== "string" && typeof id !== "number") {
+      return;
+    }
+
+    // the request may have completed already, so unknown ids are not an error
+    runningRequests[idKey({ id })]?.abortController.abort(Error("request cancelled by peer"));
+  };
+
+  const receivedProgressNotification = ({ params }: { params: TJsonRpcParameters | undefined }) => {
+    const { token, value } = (params ?? {}) as Record<string, unknown>;
+    if (typeof token !== "string" && typeof token !== "number") {
+      return;
+    }
+
+    // progress may arrive after the request was settled, so unknown tokens are not an error
+    pendingRequests[idKey({ id: token })]?.onProgress?.({ value });
+  };
+
+  const receivedStreamNotification = ({ params }: { params: TJsonRpcParameters | undefined }) => {
+    const { token, value } = (params ?? {}) as Record<string, unknown>;
+    if (typeof token !== "string" && typeof token !== "number") {
+      return;
+    }
+
+    // items may arrive after the stream was returned early, so unknown tokens are not an error
+    pendingRequests[idKey({ id: token })]?.onStreamItem?.({ value });
+  };
+
+  const receivedNotification = ({
+    method,
+    params,
+    extensions
+  }: {
+    method: string,
+    params: TJsonRpcParameters | undefined,
+    extensions: TJsonRpcExtensions | undefined
+  }) => {
+    // JSON-RPC 1.0 peers send the named params of these notifications as the single positional one
+    const reservedParams = protocolVersion === "1.0" ? namedParamsFromJrpc1({ params }) : params;
+
+    if (method === cancelNotificationMethod) {
+      receivedCancelNotification({ params: reservedParams });
+      return;
+    }
+
+    if (method === progressNotificationMethod) {
+      receivedProgressNotification({ params: reservedParams });
+      return;
+    }
+
+    if (method === streamNotificationMethod) {
+      receivedStreamNotification({ params: reservedParams });
+      return;
+    }
+
+    handleNotification({ method, params, extensions });
+  };
+
+  const receivedUnmatchedError = ({ error }: { error: TJsonRpcError }): { error: Error | undefined } => {
+    if (onUnmatchedError === undefined) {
+      return {
+        error: Error(`received error response with null id: ${error.message}`)
+      };
+    }
+
+    onUnmatchedError({ error });
+
+    return {
+      error: undefined
+    };
+  };
+
+  // eslint-disable-next-line complexity, max-statements
+  const dispatchJrpcMessage = ({
+    jrpcMessage,
+    respond
+  }: {
+    jrpcMessage: TJsonRpcMessage,
+    respond: TRespond
+  }): TDispatchResult => {
+    if (jrpcMessage.id === null) {
+      if (jrpcMessage.error !== undefined) {
+        return {
+          ...receivedUnmatchedError({ error: jrpcMessage.error }),
+          awaitsResponse: false
+        };
+      }
+
+      // the peer could not match any response to such a request
+      respond({
+        response: {
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            code: -32600,
+            message: "Invalid Request"
+          }
+        }
+      });
+
+      return {
+        error: Error("requests with null ids are not supported"),
+        awaitsResponse: true
+      };
+    }
+
+    if (jrpcMessage.id === undefined) {
+      receivedNotification({
+        method: jrpcMessage.method,
+        params: jrpcMessage.params,
+        extensions: jrpcMessage.$extensions
+      });
+
+      return { error: undefined, awaitsResponse: false };
+    }
+
+    if (jrpcMessage.result !== undefined) {
+      return {
+        ...receivedResponse({
+          id: jrpcMessage.id,
+          response: {
+            result: jrpcMessage.result,
+            error: undefined
+          }
+        }),
+        awaitsResponse: false
+      };
+    }
+
+    if (jrpcMessage.error !== undefined) {
+      return {
+        ...receivedResponse({
+          id: jrpcMessage.id,
+          response: {
+            result: undefined,
+            error: jrpcMessage.error
+          }
+        }),
+        awaitsResponse: false
+      };
+    }
+
+    return {
+      ...receivedRequest({
+        id: jrpcMessage.id,
+        method: jrpcMessage.method,
+        params: jrpcMessage.params,
+        deadline: jrpcMessage.$meta?.deadline,
+        traceparent: jrpcMessage.$meta?.traceparent,
+        extensions: jrpcMessage.$extensions,
+        respond
+      }),
+      awaitsResponse: true
+    };
+  };
+
+  const inboundShortCircuit = ({
+    message,
+    error,
+    respond
+  }: {
+    message: TJsonRpcMessage,
+    error: TJsonRpcError,
+    respond: TRespond
+  }) => {
+    if (isRequestMessage({ message })) {
+      respond({ response: { jsonrpc: "2.0", id: message.id as TJsonRpcMandatoryId, error } });
+      return;
+    }
+
+    if (isResponseMessage({ message }) && message.id !== null && message.id !== undefined) {
+      // the pending request is resolved with the error instead of the received response
+      receivedResponse({
+        id: message.id,
+        response: { result: undefined, error }
+      });
+      return;
+    }
+
+    // notifications can not be answered, so they are dropped
+  };
+
+  const receivedJrpcMessage = ({
+    jrpcMessage,
+    respond
+  }: {
+    jrpcMessage: TJsonRpcMessage,
+    respond: TRespond
+  }): TDispatchResult => {
+    // if a middleware passes the message on later on, errors of dispatching can not be reported anymore,
+    // and as middlewares may also drop requests, only requests passed on right away are awaited
+    let result: TDispatchResult = {
+      error: undefined,
+      awaitsResponse: false
+    };
+
+    runMiddlewares({
+      middlewares,
+      direction: "inbound",
+      message: jrpcMessage,
+      final: ({ message }) => {
+        result = dispatchJrpcMessage({ jrpcMessage: message, respond });
+      },
+      respondWithError: ({ error }) => {
+        inboundShortCircuit({ message: jrpcMessage, error, respond });
+      }
+    });
+
+    return result;
+  };
+
+  const invalidRequestResponse = ({ message }: { message: unknown }): TJsonRpcResponse | undefined => {
+    if (looksLikeResponse({ message })) {
+      return undefined;
+    }
+
+    return {
+      jsonrpc: "2.0",
+      id: recoverId({ message }),
+      error: {
+        code: -32600,
+        message: "Invalid Request"
+      }
+    };
+  };
+
+  let violationCount = 0;
+
+  const protocolViolation = ({ error }: { error: Error | undefined }): { error: Error | undefined } => {
+    if (error === undefined || !tolerant) {
+      return { error };
+    }
+
+    violationCount += 1;
+
+    if (shouldDisconnect({ error, violationCount })) {
+      return { error };
+    }
+
+    return { error: undefined };
+  };
+
+  // eslint-disable-next-line max-statements
+  const receivedBatch = ({ entries }: { entries: unknown[] }): { error: Error | undefined } => {
+    if (entries.length === 0) {
+      sendMessage({
+        message: {
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            code: -32600,
+            message: "Invalid Request"
+          }
+        }
+      });
+      return { error: undefined };
+    }
+
+    let responses: TJsonRpcBatch = [];
+    let outstandingRequests = 0;
+    let allDispatched = false;
+    let firstError: Error | undefined = undefined;
+
+    const maybeSendResponses = () => {
+      if (!allDispatched || outstandingRequests > 0 || responses.length === 0) {
+        return;
+      }
+
+      sendBatch({ messages: responses });
+    };
+
+    const respond: TRespond = ({ response }) => {
+      outstandingRequests -= 1;
+      if (response !== undefined) {
+        responses = [...responses, response];
+      }
+      maybeSendResponses();
+    };
+
+    entries.forEach((entry) => {
+      const { error: coerceError, jrpcMessage } = coerceJrpcMessage({ message: entry, protocolVersion, strictness });
+      if (coerceError !== undefined) {
+        const response = invalidRequestResponse({ message: entry });
+        if (response === undefined) {
+          firstError = firstError ?? coerceError;
+          return;
+        }
+
+        // invalid entries are answered within the batch instead of failing the whole batch
+        responses = [...responses, response];
+        return;
+      }
+
+      // count before dispatching, as handlers may respond synchronously
+      outstandingRequests += 1;
+      let counted = true;
+
+      const respondWithinBatch: TRespond = ({ response }) => {
+        if (!counted) {
+          // requests that middlewares passed on later on are answered on their own
+          if (response !== undefined) {
+            sendMessage({ message: response });
+          }
+          return;
+        }
+
+        counted = false;
+        respond({ response });
+      };
 
-    pendingRequest.resolve({
-      response,
-      error: undefined
+      const { error, awaitsResponse } = receivedJrpcMessage({ jrpcMessage, respond: respondWithinBatch });
+      if (!awaitsResponse && counted) {
+        counted = false;
+        outstandingRequests -= 1;
+      }
+
+      firstError = firstError ?? error;
     });
 
-    return {
-      error: undefined
-    };
+    allDispatched = true;
+    maybeSendResponses();
+
+    return protocolViolation({ error: firstError });
   };
 
-  // eslint-disable-next-line complexity
   const receivedMessage = ({ message }: { message: unknown }): { error: Error | undefined } => {
     if (closed) {
       throw Error("connection closed");
     }
 
-    const { error: coerceError, jrpcMessage } = coerceJrpcMessage({ message });
-    if (coerceError !== undefined) {
-      return {
-        error: coerceError
-      };
+    statsCollector.countMessages({ direction: "inbound", count: Array.isArray(message) ? message.length : 1 });
+
+    const { error: limitsError } = checkMessageLimits({ message, limits });
+    if (limitsError !== undefined) {
+      const response = tolerant ? invalidRequestResponse({ message }) : undefined;
+      if (response !== undefined) {
+        sendMessage({ message: response });
+      }
+
+      return protocolViolation({ error: limitsError });
     }
 
-    if (jrpcMessage.id === null) {
-      return {
-        error: Error("this library does not support null ids")
-      };
+    if (Array.isArray(message) && protocolVersion === "1.0") {
+      return protocolViolation({ error: Error("batches are not supported in JSON-RPC 1.0") });
     }
 
-    if (jrpcMessage.id === undefined) {
-      handleNotification({
-        method: jrpcMessage.method,
-        params: jrpcMessage.params
-      });
+    // without sendBatch batches could not be answered, so they are left for the coercion to reject
+    if (Array.isArray(message) && sendBatchToTransportFromArgs !== undefined) {
+      return receivedBatch({ entries: message });
+    }
 
-      return { error: undefined };
+    const { error: coerceError, jrpcMessage } = coerceJrpcMessage({ message, protocolVersion, strictness });
+    if (coerceError !== undefined) {
+      const response = tolerant ? invalidRequestResponse({ message }) : undefined;
+      if (response !== undefined) {
+        sendMessage({ message: response });
+      }
+
+      return protocolViolation({ error: coerceError });
     }
 
-    if (jrpcMessage.result !== undefined) {
-      return receivedResponse({
-        id: jrpcMessage.id,
-        response: {
-          result: jrpcMessage.result,
-          error: undefined
+    const { error } = receivedJrpcMessage({
+      jrpcMessage,
+      respond: ({ response }) => {
+        if (response === undefined) {
+          return;
         }
-      });
+
+        sendMessage({ message: response });
+      }
+    });
+
+    return protocolViolation({ error });
+  };
+
+  // to be called by transports for messages that could not even be parsed
+  const receivedParseError = ({ error }: { error: Error }): { error: Error | undefined } => {
+    if (closed) {
+      throw Error("connection closed");
     }
 
-    if (jrpcMessage.error !== undefined) {
-      return receivedResponse({
-        id: jrpcMessage.id,
-        response: {
-          result: undefined,
-          error: jrpcMessage.error
+    if (tolerant) {
+      sendMessage({
+        message: {
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            code: -32700,
+            message: "Parse error"
+          }
         }
       });
     }
 
-    return receivedRequest({
-      id: jrpcMessage.id,
-      method: jrpcMessage.method,
-      params: jrpcMessage.params
-    });
+    return protocolViolation({ error });
   };
 
   const close = () => {
+    // e.g. after drain, which closes the connection itself
     if (closed) {
-      throw Error("connection already closed");
+      return;
     }
 
-    Object.keys(pendingRequests).forEach((id) => {
-      const pendingRequest = pendingRequests[id];
+    closed = true;
+
+    Object.keys(pendingRequests).forEach((key) => {
+      const pendingRequest = pendingRequests[key];
       pendingRequest.resolve({
-        error: Error("connection closed"),
+        error: createConnectionClosedError(),
         response: undefined
       });
     });
 
-    closed = true;
+    Object.keys(runningRequests).forEach((key) => {
+      const runningRequest = runningRequests[key];
+      runningRequest.abortController.abort(Error("connection closed"));
+    });
   };
 
-  let requestIdCounter = 0;
+  const requestInfos = ({ requests }: { requests: Array<TPendingRequestHandle | TRunningRequestHandle> }) => {
+    const now = Date.now();
 
-  const request: TRequestMethod = ({
-    method,
-    params,
-    timeoutMs
-  }): Promise<TRequestResult> => {
+    return requests.map(({ id, method, startedAt }): TRequestInfo => {
+      return { id, method, ageMs: now - startedAt };
+    });
+  };
 
-    const requestId = requestIdCounter;
-    requestIdCounter += 1;
+  const stats = (): TConnectionStats => {
+    return {
+      pendingOutgoing: requestInfos({ requests: Object.values(pendingRequests) }),
+      runningIncoming: requestInfos({ requests: Object.values(runningRequests) }),
+      ...statsCollector.counters(),
+      latency: statsCollector.latency()
+    };
+  };
 
-    let timeoutHandle: NodeJS.Timeout | undefined = undefined;
-    if (timeoutMs !== undefined) {
-      timeoutHandle = setTimeout(() => {
-        const pendingRequest = pendingRequests[requestId];
-        pendingRequest.resolve({
-          error: Error("timeout"),
-          response: undefined
-        });
-      }, timeoutMs);
+  const isIdle = () => {
+    return Object.keys(runningRequests).length === 0 && Object.keys(pendingRequests).length === 0;
+  };
+
+  let drainPromise: Promise<TDrainResult> | undefined = undefined;
+
+  // answers new incoming requests with drainingError, waits for running handlers and pending
+  // outgoing requests to settle, for at most timeoutMs, and closes the connection afterwards
+  const drain = ({ timeoutMs = defaultDrainTimeoutMs }: { timeoutMs?: number } = {}): Promise<TDrainResult> => {
+    if (closed) {
+      throw Error("connection already closed");
     }
 
-    sendMessage({
-      message: {
-        jsonrpc: "2.0",
-        method,
-        params,
-        id: requestId
+    assertFiniteTimeout({ name: "timeoutMs", timeoutMs });
+
+    if (drainPromise !== undefined) {
+      return drainPromise;
+    }
+
+    draining = true;
+
+    drainPromise = new Promise<void>((resolve) => {
+      let timeoutHandle: NodeJS.Timeout | undefined = undefined;
+
+      const settle = () => {
+        checkDrained = () => {};
+        clearTimeout(timeoutHandle);
+        resolve();
+      };
+
+      if (isIdle()) {
+        settle();
+        return;
+      }
+
+      checkDrained = () => {
+        if (isIdle()) {
+          settle();
+        }
+      };
+
+      if (timeoutMs <= maxTimerDelayMs) {
+        timeoutHandle = setTimeout(settle, timeoutMs);
       }
+    }).then((): TDrainResult => {
+      const abandonedIncoming = Object.values(runningRequests).map(({ id, method }) => {
+        return { id, method };
+      });
+      const abandonedOutgoing = Object.values(pendingRequests).map(({ id, method }) => {
+        return { id, method };
+      });
+
+      close();
+
+      return {
+        abandonedIncoming,
+        abandonedOutgoing
+      };
     });
 
-    return new Promise((resolve) => {
+    return drainPromise;
+  };
+
+  const cancelledResult = ({ reason }: { reason: unknown }): TRequestResult => {
+    return {
+      error: createCancelledError({ reason }),
+      response: undefined
+    };
+  };
+
+  const updateOutgoingQueue = ({ queue }: { queue: TQueuedRequest[] }) => {
+    const depthChanged = queue.length !== queuedRequests.length;
+    queuedRequests = queue;
+
+    if (depthChanged) {
+      onOutgoingQueueDepthChange?.({ depth: queuedRequests.length });
+    }
+  };
+
+  const sendQueuedRequests = () => {
+    const [queuedRequest, ...otherQueuedRequests] = queuedRequests;
+    if (closed || queuedRequest === undefined || inFlightCount >= maxInFlight) {
+      return;
+    }
+
+    updateOutgoingQueue({ queue: otherQueuedRequests });
+    queuedRequest.dispatch();
+
+    sendQueuedRequests();
+  };
+
+  const outgoingQueueDepth = () => {
+    return queuedRequests.length;
+  };
+
+  // send is undefined if the caller puts the request on the wire itself, it then counts as in flight right away
+  // eslint-disable-next-line max-statements
+  const registerPendingRequest = ({
+    method,
+    timeoutMs,
+    signal,
+    onProgress,
+    onStreamItem,
+    traceContext,
+    send
+  }: {
+    method: string,
+    timeoutMs: number | undefined,
+    signal: AbortSignal | undefined,
+    onProgress: TProgressListener | undefined,
+    onStreamItem: TStreamItemListener | undefined,
+    traceContext: TTraceContext | undefined,
+    send: ((args: { requestId: TJsonRpcMandatoryId, spanContext: TTraceContext | undefined }) => void) | undefined
+  }) => {
+    const requestId = idGenerator();
+    const requestKey = idKey({ id: requestId });
+
+    if (pendingRequests[requestKey] !== undefined) {
+      // the request is not sent, as its response could not be told apart from the pending one
+      const collisionError = Error(`id generator returned id ${JSON.stringify(requestId)} which is still pending`);
+
+      return {
+        requestId,
+        spanContext: undefined,
+        promise: Promise.resolve<TRequestResult>({ error: createSendFailedError({ cause: collisionError }), response: undefined }),
+        registered: false,
+        markSent: () => {}
+      };
+    }
+
+    let timeoutHandle: NodeJS.Timeout | undefined = undefined;
+    let inFlight = false;
+    // whether the peer got to see the request, for batches this is only known once the batch is sent
+    let sentToPeer = false;
+
+    const markSent = () => {
+      sentToPeer = true;
+    };
+
+    const span = tracer?.startSpan({ name: method, kind: "client", parent: traceContext });
+
+    const dispatch = () => {
+      inFlight = true;
+      inFlightCount += 1;
+
+      if (send === undefined) {
+        return;
+      }
+
+      try {
+        send({ requestId, spanContext: span?.context });
+        markSent();
+      } catch (err) {
+        pendingRequests[requestKey]?.resolve({ error: createSendFailedError({ cause: err }), response: undefined });
+      }
+    };
+
+    const onAbort = () => {
+      const pendingRequest = pendingRequests[requestKey];
+      pendingRequest.resolve(cancelledResult({ reason: signal?.reason }));
+
+      // the peer never saw requests that were still queued or whose batch was not sent yet
+      if (sentToPeer) {
+        addTombstone({ id: requestId, tombstone: { method, reason: "cancelled" } });
+      }
+
+      if (sentToPeer && cancelNotificationMethod !== undefined) {
+        // eslint-disable-next-line no-use-before-define
+        notify({ method: cancelNotificationMethod, params: { id: requestId } });
+      }
+    };
+
+    const startedAt = Date.now();
+
+    const promise = new Promise<TRequestResult>((resolve) => {
       pendingRequests = {
         ...pendingRequests,
-        [requestId]: {
+        [requestKey]: {
+          id: requestId,
+          method,
+          startedAt,
           resolve: (result) => {
             // remove the request from the pending requests
-            const { [requestId]: requestToDrop, ...otherPendingRequests } = pendingRequests;
+            const { [requestKey]: requestToDrop, ...otherPendingRequests } = pendingRequests;
             pendingRequests = otherPendingRequests;
+            statsCollector.requestSettled({
+              direction: "outbound",
+              id: requestId,
+              method,
+              durationMs: Date.now() - startedAt
+            });
+            span?.end({ failed: result.error !== undefined || result.response.error !== undefined });
 
             // clear the timeout
             clearTimeout(timeoutHandle);
+            signal?.removeEventListener("abort", onAbort);
+
+            if (inFlight) {
+              inFlightCount -= 1;
+              sendQueuedRequests();
+            } else {
+              updateOutgoingQueue({
+                queue: queuedRequests.filter((queuedRequest) => {
+                  return queuedRequest.requestKey !== requestKey;
+                })
+              });
+            }
 
             resolve(result);
+            checkDrained();
           },
-          timeoutHandle
+          onProgress,
+          onStreamItem
         }
       };
     });
+    statsCollector.requestStarted({ direction: "outbound", id: requestId, method });
+
+    if (timeoutMs !== undefined && timeoutMs <= maxTimerDelayMs) {
+      timeoutHandle = setTimeout(() => {
+        if (sentToPeer) {
+          addTombstone({ id: requestId, tombstone: { method, reason: "timeout" } });
+        }
+
+        const pendingRequest = pendingRequests[requestKey];
+        pendingRequest.resolve({
+          error: createTimeoutError(),
+          response: undefined
+        });
+      }, timeoutMs);
+    }
+
+    signal?.addEventListener("abort", onAbort);
+
+    if (send !== undefined && inFlightCount >= maxInFlight) {
+      updateOutgoingQueue({ queue: [...queuedRequests, { requestKey, dispatch }] });
+    } else {
+      dispatch();
+    }
+
+    return {
+      requestId,
+      spanContext: span?.context,
+      promise,
+      registered: true,
+      // to be called by callers that put the request on the wire themselves
+      markSent
+    };
+  };
+
+  const requestDeadline = ({ timeoutMs }: { timeoutMs: number | undefined }) => {
+    // requests without a timer have no deadline either
+    if (!propagateDeadline || timeoutMs === undefined || timeoutMs > maxTimerDelayMs) {
+      return undefined;
+    }
+
+    return Date.now() + timeoutMs;
+  };
+
+  const requestMeta = ({
+    deadline,
+    spanContext
+  }: {
+    deadline: number | undefined,
+    spanContext: TTraceContext | undefined
+  }): { $meta?: TJsonRpcMeta } => {
+    if (deadline === undefined && spanContext === undefined) {
+      return {};
+    }
+
+    return {
+      $meta: {
+        ...(deadline === undefined ? {} : { deadline }),
+        ...(spanContext === undefined ? {} : { traceparent: formatTraceparent({ context: spanContext }) })
+      }
+    };
+  };
+
+  const sendRequest = ({
+    method,
+    params,
+    timeoutMs,
+    signal,
+    onProgress,
+    traceContext,
+    onStreamItem
+  }: Parameters<TRequestMethod>[0] & { onStreamItem: TStreamItemListener | undefined }): Promise<TRequestResult> => {
+    assertFiniteTimeout({ name: "timeoutMs", timeoutMs });
+
+    // e.g. retries of requests that failed because the connection was closed
+    if (closed) {
+      return Promise.resolve({ error: createConnectionClosedError(), response: undefined });
+    }
+
+    if (signal?.aborted) {
+      return Promise.resolve(cancelledResult({ reason: signal.reason }));
+    }
+
+    // the deadline is fixed now, time spent in the outgoing queue counts against it
+    const deadline = requestDeadline({ timeoutMs });
+
+    const { promise } = registerPendingRequest({
+      method,
+      timeoutMs,
+      signal,
+      onProgress,
+      onStreamItem,
+      traceContext,
+      send: ({ requestId, spanContext }) => {
+        sendMessage({
+          message: {
+            jsonrpc: "2.0",
+            method,
+            params,
+            id: requestId,
+            ...requestMeta({ deadline, spanContext })
+          }
+        });
+      }
+    });
+
+    return promise;
+  };
+
+  // every attempt of a retried request gets its own id and timeout
+  const request: TRequestMethod = ({ retry, ...args }) => {
+    const attempt = () => {
+      return sendRequest({ ...args, timeoutMs: args.timeoutMs ?? defaultTimeoutMs, onStreamItem: undefined });
+    };
+
+    if (retry === undefined) {
+      return attempt();
+    }
+
+    return withRetry({ policy: retry, signal: args.signal, attempt });
+  };
+
+  const requestStream: TRequestStreamMethod = ({ method, params, timeoutMs, signal, traceContext }) => {
+    const returnController = new AbortController();
+
+    const queue = createAsyncItemQueue<unknown>({
+      onReturn: () => {
+        // cancels the producer on the remote side
+        returnController.abort(Error("stream returned early"));
+      }
+    });
+
+    sendRequest({
+      method,
+      params,
+      timeoutMs,
+      signal: signal === undefined ? returnController.signal : AbortSignal.any([signal, returnController.signal]),
+      onProgress: undefined,
+      traceContext,
+      onStreamItem: ({ value }) => {
+        queue.push({ item: value });
+      }
+    }).then(({ error, response }) => {
+      if (error !== undefined) {
+        queue.end({ error });
+        return;
+      }
+
+      if (response.error !== undefined) {
+        queue.end({ error: createRemoteError({ error: response.error }) });
+        return;
+      }
+
+      queue.end({ error: undefined });
+    });
+
+    return queue.iterator;
   };
 
   const notify: TNotifyMethod = ({ method, params }) => {
@@ -222,10 +1685,129 @@ const createJrpc = ({
     });
   };
 
+  const batch = (): TBatch => {
+    if (protocolVersion !== "1.0" && sendBatchToTransportFromArgs === undefined) {
+      throw Error("batches require the sendBatch option");
+    }
+
+    let queuedMessages: TJsonRpcBatch = [];
+    let markQueuedRequestsSent: Record<string, () => void> = {};
+    let sent = false;
+
+    const assertNotSent = () => {
+      if (sent) {
+        throw Error("batch already sent");
+      }
+    };
+
+    const batchRequest: TRequestMethod = ({
+      method,
+      params,
+      timeoutMs = defaultTimeoutMs,
+      signal,
+      onProgress,
+      traceContext
+    }) => {
+      assertNotSent();
+      assertFiniteTimeout({ name: "timeoutMs", timeoutMs });
+
+      if (signal?.aborted) {
+        return Promise.resolve(cancelledResult({ reason: signal.reason }));
+      }
+
+      // batches are sent as a whole, so their requests bypass the outgoing queue
+      const { requestId, spanContext, promise, registered, markSent } = registerPendingRequest({
+        method,
+        timeoutMs,
+        signal,
+        onProgress,
+        onStreamItem: undefined,
+        traceContext,
+        send: undefined
+      });
+
+      if (!registered) {
+        return promise;
+      }
+
+      markQueuedRequestsSent = { ...markQueuedRequestsSent, [idKey({ id: requestId })]: markSent };
+
+      queuedMessages = [...queuedMessages, {
+        jsonrpc: "2.0",
+        method,
+        params,
+        id: requestId,
+        ...requestMeta({ deadline: requestDeadline({ timeoutMs }), spanContext })
+      }];
+
+      return promise;
+    };
+
+    const batchNotify: TNotifyMethod = ({ method, params }) => {
+      assertNotSent();
+
+      queuedMessages = [...queuedMessages, {
+        jsonrpc: "2.0",
+        method,
+        params
+      }];
+    };
+
+    const send = () => {
+      assertNotSent();
+      sent = true;
+
+      // requests that were cancelled or timed out in the meantime are left out
+      const messages = queuedMessages.filter((message) => {
+        return !isRequestMessage({ message }) || pendingRequests[idKey({ id: message.id as TJsonRpcMandatoryId })] !== undefined;
+      });
+
+      // an empty array is not a valid batch
+      if (messages.length === 0) {
+        return;
+      }
+
+      try {
+        sendBatch({ messages });
+      } catch (err) {
+        messages.forEach((message) => {
+          if (!isRequestMessage({ message })) {
+            return;
+          }
+
+          pendingRequests[idKey({ id: message.id as TJsonRpcMandatoryId })]?.resolve({
+            error: createSendFailedError({ cause: err }),
+            response: undefined
+          });
+        });
+        return;
+      }
+
+      Object.values(markQueuedRequestsSent).forEach((markSent) => {
+        markSent();
+      });
+    };
+
+    return {
+      request: batchRequest,
+      notify: batchNotify,
+      send
+    };
+  };
+
   return {
     receivedMessage,
+    receivedParseError,
     request,
+    requestStream,
     notify,
+    batch,
+    outgoingQueueDepth,
+    drain,
+    stats,
+    subscribe: statsCollector.subscribe,
+    // to be called by transports that know the encoded size of the messages
+    countBytes: statsCollector.countBytes,
     close
   };
 };
@@ -238,11 +1820,41 @@ export {
 
 export type {
   TJsonRpcMessage,
+  TJsonRpcBatch,
+  TJsonRpcProtocolVersion,
+  TJsonRpc1Message,
+  TJrpcTransportOptions,
+  TJsonRpcExtensions,
+  TCoercionStrictness,
+  TMessageLimits,
+  TLateResponseReason,
   TRequestResponse,
   TRequestResult,
   TJrpc,
+  TBatch,
   TRequestHandler,
   TNotificationHandler,
   TRequestMethod,
-  TNotifyMethod
+  TRequestStreamMethod,
+  TRetryPolicy,
+  TRequestError,
+  TRequestErrorKind,
+  TTimeoutError,
+  TCancelledError,
+  TConnectionClosedError,
+  TSendFailedError,
+  TRemoteError,
+  TNotifyMethod,
+  TProgressListener,
+  TReportProgress,
+  TMiddleware,
+  TMiddlewareDirection,
+  TDrainResult,
+  TDispatchMode,
+  TAbandonedRequest,
+  TConnectionStats,
+  TConnectionEvent,
+  TConnectionEventListener,
+  TLatencyPercentiles,
+  TRequestInfo
 };
@@ -0,0 +1,152 @@
+import type {
+  TJsonRpc1Message,
+  TJsonRpcError,
+  TJsonRpcMessage,
+  TJsonRpcParameters,
+  TJsonRpcParameterValue
+} from "./types.ts";
+
+type TUpgradeResult = {
+  error: Error;
+  message: undefined;
+} | {
+  error: undefined;
+  message: unknown;
+};
+
+const isJsonRpcErrorObject = (error: unknown): error is TJsonRpcError => {
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+
+  const { code, message } = error as Record<string, unknown>;
+  return typeof code === "number" && Number.isInteger(code) && typeof message === "string";
+};
+
+// JSON-RPC 1.0 leaves the shape of errors open, errors without code and message are wrapped
+const upgradeJrpc1Error = ({ error }: { error: unknown }): TJsonRpcError => {
+  if (isJsonRpcErrorObject(error)) {
+    return error;
+  }
+
+  return {
+    code: -32000,
+    message: typeof error === "string" ? error : "Server error",
+    data: error
+  };
+};
+
+// turns a JSON-RPC 1.0 message into its 2.0 equivalent, which is then coerced as usual
+const upgradeJrpc1Message = ({ message }: { message: unknown }): TUpgradeResult => {
+  if (typeof message !== "object" || message === null || Array.isArray(message)) {
+    // left for the coercion to reject
+    return {
+      error: undefined,
+      message
+    };
+  }
+
+  const { method, params, id, result, error, ...otherFields } = message as Record<string, unknown>;
+
+  if (method !== undefined) {
+    if (params !== undefined && !Array.isArray(params)) {
+      return {
+        error: Error("params must be an array in JSON-RPC 1.0"),
+        message: undefined
+      };
+    }
+
+    return {
+      error: undefined,
+      message: {
+        ...otherFields,
+        jsonrpc: "2.0",
+        method,
+        ...(params === undefined ? {} : { params }),
+        // a null id marks a notification
+        ...(id === null || id === undefined ? {} : { id })
+      }
+    };
+  }
+
+  // responses carry both result and error, the unused one being null
+  if (error !== null && error !== undefined) {
+    return {
+      error: undefined,
+      message: {
+        ...otherFields,
+        jsonrpc: "2.0",
+        id,
+        error: upgradeJrpc1Error({ error })
+      }
+    };
+  }
+
+  return {
+    error: undefined,
+    message: {
+      ...otherFields,
+      jsonrpc: "2.0",
+      id,
+      result
+    }
+  };
+};
+
+// JSON-RPC 1.0 only knows positional params, named params are passed as the single positional one
+const positionalParams = ({ params }: { params: TJsonRpcParameters | undefined }): TJsonRpcParameterValue[] => {
+  if (params === undefined) {
+    return [];
+  }
+
+  if (Array.isArray(params)) {
+    return params;
+  }
+
+  return [params];
+};
+
+// reverses positionalParams for the named params of the library's own notifications like progress and cancellation
+const namedParamsFromJrpc1 = ({ params }: { params: TJsonRpcParameters | undefined }): TJsonRpcParameters | undefined => {
+  if (!Array.isArray(params) || params.length !== 1) {
+    return params;
+  }
+
+  const [param] = params;
+  if (typeof param !== "object" || param === null || Array.isArray(param)) {
+    return params;
+  }
+
+  return param as Record<string, TJsonRpcParameterValue>;
+};
+
+// metadata like deadlines and trace context can not be expressed in JSON-RPC 1.0 and is dropped
+const downgradeToJrpc1Message = ({ message }: { message: TJsonRpcMessage }): TJsonRpc1Message => {
+  if (message.method !== undefined) {
+    return {
+      method: message.method,
+      params: positionalParams({ params: message.params }),
+      id: message.id ?? null
+    };
+  }
+
+  if (message.error !== undefined) {
+    return {
+      result: null,
+      error: message.error,
+      id: message.id
+    };
+  }
+
+  return {
+    result: message.result,
+    error: null,
+    id: message.id
+  };
+};
+
+export {
+  upgradeJrpc1Message,
+  downgradeToJrpc1Message,
+  namedParamsFromJrpc1
+};
@@ -0,0 +1,105 @@
+// bounds on the structure of received messages, checked before they are coerced
+type TMessageLimits = {
+  // nesting depth of arrays and objects, the message itself being at depth 1
+  maxDepth?: number;
+  // entries of any single array or object, which includes the entries of a batch
+  maxEntries?: number;
+  maxMethodLength?: number;
+};
+
+type TCheckLimitsResult = {
+  error: Error | undefined;
+};
+
+type TPendingValue = {
+  value: object;
+  depth: number;
+};
+
+// walks with an explicit stack instead of recursing, so hostile nesting can not exhaust the call stack
+// eslint-disable-next-line complexity
+const checkStructure = ({
+  value,
+  maxDepth,
+  maxEntries
+}: {
+  value: unknown,
+  maxDepth: number,
+  maxEntries: number
+}): TCheckLimitsResult => {
+  if (typeof value !== "object" || value === null) {
+    return { error: undefined };
+  }
+
+  const pendingValues: TPendingValue[] = [{ value, depth: 1 }];
+
+  // eslint-disable-next-line fp/no-mutating-methods
+  let next = pendingValues.pop();
+  while (next !== undefined) {
+    const { value: current, depth } = next;
+
+    if (depth > maxDepth) {
+      return { error: Error(`message is nested deeper than ${maxDepth} levels`) };
+    }
+
+    const entries: unknown[] = Array.isArray(current) ? current : Object.values(current);
+    if (entries.length > maxEntries) {
+      return { error: Error(`message contains more than ${maxEntries} entries in one array or object`) };
+    }
+
+    entries.forEach((entry) => {
+      if (typeof entry === "object" && entry !== null) {
+        // eslint-disable-next-line fp/no-mutating-methods
+        pendingValues.push({ value: entry, depth: depth + 1 });
+      }
+    });
+
+    // eslint-disable-next-line fp/no-mutating-methods
+    next = pendingValues.pop();
+  }
+
+  return { error: undefined };
+};
+
+const checkMethodLength = ({ message, maxMethodLength }: { message: unknown, maxMethodLength: number }) => {
+  if (typeof message !== "object" || message === null) {
+    return { error: undefined };
+  }
+
+  const { method } = message as Record<string, unknown>;
+  if (typeof method === "string" && method.length > maxMethodLength) {
+    return { error: Error(`method name is longer than ${maxMethodLength} characters`) };
+  }
+
+  return { error: undefined };
+};
+
+const checkMessageLimits = ({ message, limits }: { message: unknown, limits: TMessageLimits }): TCheckLimitsResult => {
+  const { maxDepth = Infinity, maxEntries = Infinity, maxMethodLength = Infinity } = limits;
+
+  // without structural limits, the message is not walked at all
+  if (maxDepth !== Infinity || maxEntries !== Infinity) {
+    const { error: structureError } = checkStructure({ value: message, maxDepth, maxEntries });
+    if (structureError !== undefined) {
+      return { error: structureError };
+    }
+  }
+
+  const messages = Array.isArray(message) ? message : [message];
+
+  return messages.reduce<TCheckLimitsResult>((result, entry) => {
+    if (result.error !== undefined) {
+      return result;
+    }
+
+    return checkMethodLength({ message: entry, maxMethodLength });
+  }, { error: undefined });
+};
+
+export {
+  checkMessageLimits
+};
+
+export type {
+  TMessageLimits
+};
@@ -0,0 +1,53 @@
+import type { TJsonRpcError, TJsonRpcMessage, TMiddleware, TMiddlewareDirection } from "./types.ts";
+
+// runs the message through all middlewares in order, each one decides whether to pass it on
+const runMiddlewares = ({
+  middlewares,
+  direction,
+  message,
+  final,
+  respondWithError
+}: {
+  middlewares: TMiddleware[];
+  direction: TMiddlewareDirection;
+  message: TJsonRpcMessage;
+  final: (args: { message: TJsonRpcMessage }) => void;
+  respondWithError: (args: { error: TJsonRpcError }) => void;
+}) => {
+  let settled = false;
+
+  const assertNotSettled = () => {
+    if (settled) {
+      throw Error("middleware already passed on or answered this message");
+    }
+  };
+
+  const runFrom = ({ index, message: currentMessage }: { index: number, message: TJsonRpcMessage }) => {
+    const middleware = middlewares[index];
+    if (middleware === undefined) {
+      assertNotSettled();
+      settled = true;
+      final({ message: currentMessage });
+      return;
+    }
+
+    middleware({
+      direction,
+      message: currentMessage,
+      next: ({ message: nextMessage }) => {
+        runFrom({ index: index + 1, message: nextMessage });
+      },
+      respondWithError: ({ error }) => {
+        assertNotSettled();
+        settled = true;
+        respondWithError({ error });
+      }
+    });
+  };
+
+  runFrom({ index: 0, message });
+};
+
+export {
+  runMiddlewares
+};
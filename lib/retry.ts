@@ -0,0 +1,73 @@
+import type { TRequestErrorKind } from "./errors.ts";
+import type { TRequestResult, TRetryPolicy } from "./types.ts";
+
+const transientErrorKinds: TRequestErrorKind[] = ["timeout", "connection-closed", "send-failed"];
+
+const isRetryable = ({ policy, result }: { policy: TRetryPolicy, result: TRequestResult }) => {
+  if (result.error !== undefined) {
+    return transientErrorKinds.includes(result.error.kind);
+  }
+
+  const { error: responseError } = result.response;
+  if (responseError === undefined) {
+    return false;
+  }
+
+  return (policy.retryableErrorCodes ?? []).includes(responseError.code);
+};
+
+// the delay before the given retry, starting with retry 1
+const backoffDelay = ({ policy, retry }: { policy: TRetryPolicy, retry: number }) => {
+  const { initialDelayMs, maxDelayMs = Infinity, backoffFactor = 2, jitter = 0 } = policy;
+
+  const delayMs = Math.min(initialDelayMs * (backoffFactor ** (retry - 1)), maxDelayMs);
+
+  return delayMs * (1 - (jitter * Math.random()));
+};
+
+// resolves early when the signal aborts, the next attempt then reports the cancellation
+const sleep = ({ delayMs, signal }: { delayMs: number, signal: AbortSignal | undefined }) => {
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      // eslint-disable-next-line no-use-before-define
+      clearTimeout(timeoutHandle);
+      resolve();
+    };
+
+    const timeoutHandle = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+const withRetry = ({
+  policy,
+  signal,
+  attempt
+}: {
+  policy: TRetryPolicy,
+  signal: AbortSignal | undefined,
+  attempt: () => Promise<TRequestResult>
+}): Promise<TRequestResult> => {
+
+  const run = async ({ attemptNumber }: { attemptNumber: number }): Promise<TRequestResult> => {
+    const result = await attempt();
+
+    if (attemptNumber >= policy.maxAttempts || signal?.aborted || !isRetryable({ policy, result })) {
+      return result;
+    }
+
+    await sleep({ delayMs: backoffDelay({ policy, retry: attemptNumber }), signal });
+
+    return await run({ attemptNumber: attemptNumber + 1 });
+  };
+
+  return run({ attemptNumber: 1 });
+};
+
+export {
+  withRetry
+};
@@ -0,0 +1,176 @@
+import type { TJsonRpcMandatoryId, TMiddlewareDirection } from "./types.ts";
+
+type TDirectionCounters = {
+  inbound: number;
+  outbound: number;
+};
+
+type TLatencyPercentiles = {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+};
+
+type TRequestInfo = {
+  id: TJsonRpcMandatoryId;
+  method: string;
+  ageMs: number;
+};
+
+type TConnectionStats = {
+  // outgoing requests that have not settled yet, including queued ones
+  pendingOutgoing: TRequestInfo[];
+  runningIncoming: TRequestInfo[];
+  messages: TDirectionCounters;
+  // only counted if the transport reports them, see countBytes
+  bytes: TDirectionCounters;
+  // over the most recent answered outgoing requests per method
+  latency: Record<string, TLatencyPercentiles>;
+};
+
+// the direction of request events tells whether the request was sent (outbound) or received (inbound)
+type TConnectionEvent = {
+  type: "messages";
+  direction: TMiddlewareDirection;
+  count: number;
+} | {
+  type: "bytes";
+  direction: TMiddlewareDirection;
+  byteCount: number;
+} | {
+  type: "request-started";
+  direction: TMiddlewareDirection;
+  id: TJsonRpcMandatoryId;
+  method: string;
+} | {
+  type: "request-settled";
+  direction: TMiddlewareDirection;
+  id: TJsonRpcMandatoryId;
+  method: string;
+  durationMs: number;
+};
+
+type TConnectionEventListener = (args: { event: TConnectionEvent }) => void;
+
+// nearest-rank percentile of ascending samples
+const percentile = ({ sortedSamples, fraction }: { sortedSamples: number[], fraction: number }) => {
+  const rank = Math.max(Math.ceil(fraction * sortedSamples.length) - 1, 0);
+  return sortedSamples[rank];
+};
+
+const createStatsCollector = ({ latencySampleSize }: { latencySampleSize: number }) => {
+  let messages: TDirectionCounters = { inbound: 0, outbound: 0 };
+  let bytes: TDirectionCounters = { inbound: 0, outbound: 0 };
+  let latencySamples: Record<string, number[]> = {};
+  let listeners: TConnectionEventListener[] = [];
+
+  const emit = ({ event }: { event: TConnectionEvent }) => {
+    listeners.forEach((listener) => {
+      listener({ event });
+    });
+  };
+
+  const countMessages = ({ direction, count }: { direction: TMiddlewareDirection, count: number }) => {
+    messages = { ...messages, [direction]: messages[direction] + count };
+    emit({ event: { type: "messages", direction, count } });
+  };
+
+  const countBytes = ({ direction, byteCount }: { direction: TMiddlewareDirection, byteCount: number }) => {
+    bytes = { ...bytes, [direction]: bytes[direction] + byteCount };
+    emit({ event: { type: "bytes", direction, byteCount } });
+  };
+
+  const requestStarted = ({
+    direction,
+    id,
+    method
+  }: {
+    direction: TMiddlewareDirection,
+    id: TJsonRpcMandatoryId,
+    method: string
+  }) => {
+    emit({ event: { type: "request-started", direction, id, method } });
+  };
+
+  const requestSettled = ({
+    direction,
+    id,
+    method,
+    durationMs
+  }: {
+    direction: TMiddlewareDirection,
+    id: TJsonRpcMandatoryId,
+    method: string,
+    durationMs: number
+  }) => {
+    emit({ event: { type: "request-settled", direction, id, method, durationMs } });
+  };
+
+  const recordLatency = ({ method, durationMs }: { method: string, durationMs: number }) => {
+    const samples = [...(latencySamples[method] ?? []), durationMs];
+    latencySamples = {
+      ...latencySamples,
+      [method]: samples.slice(Math.max(samples.length - latencySampleSize, 0))
+    };
+  };
+
+  const latency = (): Record<string, TLatencyPercentiles> => {
+    return Object.fromEntries(Object.entries(latencySamples).map(([method, samples]) => {
+      const sortedSamples = [...samples].sort((a, b) => {
+        return a - b;
+      });
+
+      return [method, {
+        count: sortedSamples.length,
+        p50: percentile({ sortedSamples, fraction: 0.5 }),
+        p90: percentile({ sortedSamples, fraction: 0.9 }),
+        p99: percentile({ sortedSamples, fraction: 0.99 })
+      }];
+    }));
+  };
+
+  const counters = () => {
+    return {
+      messages,
+      bytes
+    };
+  };
+
+  const subscribe = ({ listener }: { listener: TConnectionEventListener }) => {
+    listeners = [...listeners, listener];
+
+    const unsubscribe = () => {
+      listeners = listeners.filter((otherListener) => {
+        return otherListener !== listener;
+      });
+    };
+
+    return {
+      unsubscribe
+    };
+  };
+
+  return {
+    countMessages,
+    countBytes,
+    requestStarted,
+    requestSettled,
+    recordLatency,
+    latency,
+    counters,
+    subscribe
+  };
+};
+
+export {
+  createStatsCollector
+};
+
+export type {
+  TConnectionStats,
+  TConnectionEvent,
+  TConnectionEventListener,
+  TLatencyPercentiles,
+  TRequestInfo
+};
@@ -0,0 +1,153 @@
+type TAsyncItemQueue<T> = {
+  push: (args: { item: T }) => void;
+  end: (args: { error: Error | undefined }) => void;
+  iterator: AsyncIterableIterator<T>;
+};
+
+type TWaiter<T> = {
+  resolve: (result: IteratorResult<T>) => void;
+  reject: (error: Error) => void;
+};
+
+// buffers pushed items until they are pulled by the consumer of the iterator
+const createAsyncItemQueue = <T>({ onReturn }: { onReturn: () => void }): TAsyncItemQueue<T> => {
+  let items: T[] = [];
+  let waiters: TWaiter<T>[] = [];
+  let ended: { error: Error | undefined } | undefined = undefined;
+
+  const push: TAsyncItemQueue<T>["push"] = ({ item }) => {
+    if (ended !== undefined) {
+      return;
+    }
+
+    const [waiter, ...otherWaiters] = waiters;
+    if (waiter !== undefined) {
+      waiters = otherWaiters;
+      waiter.resolve({ done: false, value: item });
+      return;
+    }
+
+    items = [...items, item];
+  };
+
+  const end: TAsyncItemQueue<T>["end"] = ({ error }) => {
+    if (ended !== undefined) {
+      return;
+    }
+
+    ended = { error };
+
+    // errors are only raised once, after the buffered items were consumed
+    waiters.forEach((waiter, idx) => {
+      if (error !== undefined && idx === 0) {
+        waiter.reject(error);
+        ended = { error: undefined };
+        return;
+      }
+
+      waiter.resolve({ done: true, value: undefined });
+    });
+    waiters = [];
+  };
+
+  const next = (): Promise<IteratorResult<T>> => {
+    const [item, ...otherItems] = items;
+    if (items.length > 0) {
+      items = otherItems;
+      return Promise.resolve({ done: false, value: item });
+    }
+
+    if (ended !== undefined) {
+      const { error } = ended;
+      ended = { error: undefined };
+
+      if (error !== undefined) {
+        return Promise.reject(error);
+      }
+
+      return Promise.resolve({ done: true, value: undefined });
+    }
+
+    return new Promise((resolve, reject) => {
+      waiters = [...waiters, { resolve, reject }];
+    });
+  };
+
+  const iteratorReturn = (): Promise<IteratorResult<T>> => {
+    if (ended === undefined) {
+      onReturn();
+    }
+
+    items = [];
+    end({ error: undefined });
+
+    return Promise.resolve({ done: true, value: undefined });
+  };
+
+  const iterator: AsyncIterableIterator<T> = {
+    next,
+    return: iteratorReturn,
+    [Symbol.asyncIterator]: () => {
+      return iterator;
+    }
+  };
+
+  return {
+    push,
+    end,
+    iterator
+  };
+};
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> => {
+  return typeof value === "object" && value !== null && Symbol.asyncIterator in value;
+};
+
+// errors thrown by map stop the underlying iterator
+const mapAsyncIterator = <T, U>({
+  iterator,
+  map
+}: {
+  iterator: AsyncIterator<T>,
+  map: (args: { item: T }) => U
+}): AsyncIterableIterator<U> => {
+
+  const next = async (): Promise<IteratorResult<U>> => {
+    const result = await iterator.next();
+    if (result.done) {
+      return { done: true, value: undefined };
+    }
+
+    try {
+      return { done: false, value: map({ item: result.value }) };
+    } catch (err) {
+      await iterator.return?.();
+      throw err;
+    }
+  };
+
+  const iteratorReturn = async (): Promise<IteratorResult<U>> => {
+    await iterator.return?.();
+    return { done: true, value: undefined };
+  };
+
+  const mappedIterator: AsyncIterableIterator<U> = {
+    next,
+    return: iteratorReturn,
+    [Symbol.asyncIterator]: () => {
+      return mappedIterator;
+    }
+  };
+
+  return mappedIterator;
+};
+
+export {
+  createAsyncItemQueue,
+  isAsyncIterable,
+  mapAsyncIterator
+};
+
+export type {
+  TAsyncItemQueue
+};
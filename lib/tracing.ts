@@ -0,0 +1,189 @@
+type TTraceContext = {
+  // 32 lowercase hex characters
+  traceId: string;
+  // 16 lowercase hex characters
+  spanId: string;
+  // 2 lowercase hex characters, "01" means sampled
+  traceFlags: string;
+};
+
+type TSpanKind = "client" | "server";
+
+type TSpan = {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | undefined;
+  name: string;
+  kind: TSpanKind;
+  startedAt: number;
+  endedAt: number;
+  failed: boolean;
+};
+
+type TSpanHandle = {
+  context: TTraceContext;
+  end: (args: { failed: boolean }) => void;
+};
+
+type TTracer = {
+  startSpan: (args: { name: string, kind: TSpanKind, parent: TTraceContext | undefined }) => TSpanHandle;
+};
+
+type TSpanExporter = {
+  export: (args: { span: TSpan }) => void;
+};
+
+type TSpanTreeNode = {
+  span: TSpan;
+  children: TSpanTreeNode[];
+};
+
+type TParseTraceparentResult = {
+  error: Error;
+  context: undefined;
+} | {
+  error: undefined;
+  context: TTraceContext;
+};
+
+const traceparentPattern = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// only version 00 of the W3C trace context format is understood
+const parseTraceparent = ({ traceparent }: { traceparent: string }): TParseTraceparentResult => {
+  const match = traceparentPattern.exec(traceparent);
+  if (match === null) {
+    return {
+      error: Error("invalid traceparent"),
+      context: undefined
+    };
+  }
+
+  const [, traceId, spanId, traceFlags] = match;
+
+  // all zero ids are explicitly invalid
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+    return {
+      error: Error("invalid traceparent"),
+      context: undefined
+    };
+  }
+
+  return {
+    error: undefined,
+    context: { traceId, spanId, traceFlags }
+  };
+};
+
+const formatTraceparent = ({ context }: { context: TTraceContext }) => {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags}`;
+};
+
+const randomHex = ({ byteCount }: { byteCount: number }) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteCount));
+
+  return Array.from(bytes).map((byte) => {
+    return byte.toString(16).padStart(2, "0");
+  }).join("");
+};
+
+const createTracer = ({ exporter }: { exporter: TSpanExporter }): TTracer => {
+  const startSpan: TTracer["startSpan"] = ({ name, kind, parent }) => {
+    const context: TTraceContext = {
+      traceId: parent?.traceId ?? randomHex({ byteCount: 16 }),
+      spanId: randomHex({ byteCount: 8 }),
+      traceFlags: parent?.traceFlags ?? "01"
+    };
+    const startedAt = Date.now();
+    let ended = false;
+
+    const end: TSpanHandle["end"] = ({ failed }) => {
+      if (ended) {
+        return;
+      }
+
+      ended = true;
+
+      exporter.export({
+        span: {
+          traceId: context.traceId,
+          spanId: context.spanId,
+          parentSpanId: parent?.spanId,
+          name,
+          kind,
+          startedAt,
+          endedAt: Date.now(),
+          failed
+        }
+      });
+    };
+
+    return {
+      context,
+      end
+    };
+  };
+
+  return {
+    startSpan
+  };
+};
+
+// keeps finished spans in memory, meant for tests
+const createInMemorySpanExporter = () => {
+  let finishedSpans: TSpan[] = [];
+
+  const exportSpan: TSpanExporter["export"] = ({ span }) => {
+    finishedSpans = [...finishedSpans, span];
+  };
+
+  const spans = () => {
+    return finishedSpans;
+  };
+
+  // spans whose parent was not exported here, e.g. because it lives in another service, become roots
+  const spanTree = (): TSpanTreeNode[] => {
+    const childrenOf = ({ spanId }: { spanId: string }): TSpanTreeNode[] => {
+      return finishedSpans.filter(({ parentSpanId }) => {
+        return parentSpanId === spanId;
+      }).map((span) => {
+        return { span, children: childrenOf({ spanId: span.spanId }) };
+      });
+    };
+
+    return finishedSpans.filter(({ parentSpanId }) => {
+      return !finishedSpans.some(({ spanId }) => {
+        return spanId === parentSpanId;
+      });
+    }).map((span) => {
+      return { span, children: childrenOf({ spanId: span.spanId }) };
+    });
+  };
+
+  const reset = () => {
+    finishedSpans = [];
+  };
+
+  return {
+    export: exportSpan,
+    spans,
+    spanTree,
+    reset
+  };
+};
+
+export {
+  parseTraceparent,
+  formatTraceparent,
+  createTracer,
+  createInMemorySpanExporter
+};
+
+export type {
+  TTraceContext,
+  TSpanKind,
+  TSpan,
+  TSpanHandle,
+  TTracer,
+  TSpanExporter,
+  TSpanTreeNode
+};
@@ -0,0 +1,302 @@
+import { createJrpc } from "./jrpc.ts";
+import type {
+  TJsonRpc1Message,
+  TJsonRpcBatch,
+  TJsonRpcMessage,
+  TNotificationHandler,
+  TRequestHandler
+} from "./jrpc.ts";
+
+type TTransportData = string | Uint8Array;
+
+// a connection carrying raw frames, adapters wrap e.g. WebSockets, workers or stdio streams
+type TTransport = {
+  // frames sent before the connection is ready should be queued by the adapter
+  send: (args: { data: TTransportData }) => void;
+  onMessage: (args: { listener: (args: { data: TTransportData }) => void }) => void;
+  // called once, whether the connection was closed by the remote, by close or after an error
+  onClose: (args: { listener: () => void }) => void;
+  onError: (args: { listener: (args: { error: Error }) => void }) => void;
+  close: () => void;
+};
+
+type TMessageParseResult = {
+  error: Error;
+  message: undefined;
+} | {
+  error: undefined;
+  message: unknown;
+};
+
+type TMessageParser = {
+  parse: (args: { data: TTransportData }) => TMessageParseResult;
+  format: (args: { message: unknown }) => TTransportData;
+};
+
+type TJrpcOptions = Omit<Parameters<typeof createJrpc>[0], "sendMessage" | "sendBatch" | "handleRequest" | "handleNotification">;
+
+const isHighSurrogate = ({ code }: { code: number }) => {
+  return code >= 0xd800 && code <= 0xdbff;
+};
+
+const isLowSurrogate = ({ code }: { code: number }) => {
+  return code >= 0xdc00 && code <= 0xdfff;
+};
+
+// counts the UTF-8 bytes of a string without encoding it, lone surrogates count as U+FFFD
+// eslint-disable-next-line complexity
+const utf8ByteLength = ({ text }: { text: string }) => {
+  let byteCount = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const code = text.charCodeAt(index);
+
+    if (code < 0x80) {
+      byteCount += 1;
+    } else if (code < 0x800) {
+      byteCount += 2;
+    } else if (isHighSurrogate({ code }) && isLowSurrogate({ code: text.charCodeAt(index + 1) })) {
+      byteCount += 4;
+      index += 1;
+    } else {
+      byteCount += 3;
+    }
+
+    index += 1;
+  }
+
+  return byteCount;
+};
+
+const byteLength = ({ data }: { data: TTransportData }) => {
+  if (typeof data === "string") {
+    return utf8ByteLength({ text: data });
+  }
+
+  return data.byteLength;
+};
+
+// eslint-disable-next-line max-statements
+const createTransportJrpc = ({
+  transport,
+
+  parser,
+
+  handleRequest,
+  handleNotification,
+
+  onConnectionError,
+  onRemoteClose,
+
+  jrpcOptions = {}
+}: {
+  transport: TTransport,
+
+  parser: TMessageParser;
+
+  handleRequest: TRequestHandler;
+  handleNotification: TNotificationHandler;
+
+  onConnectionError: (args: { error: Error }) => void;
+  onRemoteClose: () => void;
+
+  // further options like middlewares, passed on to createJrpc
+  jrpcOptions?: TJrpcOptions;
+}) => {
+
+  let closedByUs = false;
+  let drained = false;
+  let connectionError: Error | undefined = undefined;
+
+  const sendRawMessage = ({ data }: { data: TTransportData }) => {
+    // eslint-disable-next-line no-use-before-define
+    jrpc.countBytes({ direction: "outbound", byteCount: byteLength({ data }) });
+    transport.send({ data });
+  };
+
+  const sendMessage = ({ message }: { message: TJsonRpcMessage | TJsonRpc1Message }) => {
+    const encoded = parser.format({ message });
+    sendRawMessage({ data: encoded });
+  };
+
+  const sendBatch = ({ messages }: { messages: TJsonRpcBatch }) => {
+    const encoded = parser.format({ message: messages });
+    sendRawMessage({ data: encoded });
+  };
+
+  const jrpc = createJrpc({
+    sendMessage,
+    sendBatch,
+    handleRequest,
+    handleNotification,
+    ...jrpcOptions,
+    protocolVersion: jrpcOptions.protocolVersion ?? "2.0"
+  });
+
+  transport.onMessage({
+    listener: ({ data }) => {
+
+      if (closedByUs) {
+        throw Error("transport was closed by us, but received a message from remote");
+      }
+
+      jrpc.countBytes({ direction: "inbound", byteCount: byteLength({ data }) });
+
+      const { error: parseError, message } = parser.parse({ data });
+      if (parseError !== undefined) {
+        // in tolerant mode, the parse error is answered and the connection kept open
+        const { error: violationError } = jrpc.receivedParseError({ error: parseError });
+        if (violationError === undefined) {
+          return;
+        }
+
+        closedByUs = true;
+        transport.close();
+        onConnectionError({
+          error: Error("failed to parse message", { cause: violationError })
+        });
+        return;
+      }
+
+      const { error: jrpcError } = jrpc.receivedMessage({ message });
+      if (jrpcError !== undefined) {
+        closedByUs = true;
+        transport.close();
+        onConnectionError({
+          error: Error("failed to handle JRPC message", { cause: jrpcError })
+        });
+        return;
+      }
+    }
+  });
+
+  transport.onClose({
+    listener: () => {
+      // a drained connection has closed the jrpc already
+      if (!drained) {
+        jrpc.close();
+      }
+
+      if (closedByUs) {
+        return;
+      }
+
+      if (connectionError !== undefined) {
+        return;
+      }
+
+      onRemoteClose();
+    }
+  });
+
+  transport.onError({
+    listener: ({ error }) => {
+      if (closedByUs) {
+        return;
+      }
+
+      connectionError = error;
+
+      onConnectionError({ error });
+    }
+  });
+
+  const close = () => {
+    closedByUs = true;
+    transport.close();
+  };
+
+  const drain = async ({ timeoutMs }: { timeoutMs?: number } = {}) => {
+    const result = await jrpc.drain({ timeoutMs });
+
+    drained = true;
+    close();
+
+    return result;
+  };
+
+  return {
+    request: jrpc.request,
+    requestStream: jrpc.requestStream,
+    notify: jrpc.notify,
+    batch: jrpc.batch,
+
+    outgoingQueueDepth: jrpc.outgoingQueueDepth,
+    stats: jrpc.stats,
+    subscribe: jrpc.subscribe,
+
+    drain,
+
+    close
+  };
+};
+
+type TTransportJrpcHandle = ReturnType<typeof createTransportJrpc>;
+
+// frames larger than maxFrameBytes are rejected without parsing them
+const createJsonParser = ({ maxFrameBytes = Infinity }: { maxFrameBytes?: number } = {}): TMessageParser => {
+
+  const parse: TMessageParser["parse"] = ({ data }) => {
+
+    // a string has at least as many UTF-8 bytes as UTF-16 code units, so long ones are rejected without counting
+    if (typeof data === "string" && data.length > maxFrameBytes) {
+      return {
+        error: Error(`frame of at least ${data.length} bytes exceeds the limit of ${maxFrameBytes} bytes`),
+        message: undefined
+      };
+    }
+
+    if (maxFrameBytes !== Infinity) {
+      const frameBytes = byteLength({ data });
+      if (frameBytes > maxFrameBytes) {
+        return {
+          error: Error(`frame of ${frameBytes} bytes exceeds the limit of ${maxFrameBytes} bytes`),
+          message: undefined
+        };
+      }
+    }
+
+    if (typeof data === "string") {
+      try {
+        const message = JSON.parse(data);
+        return {
+          error: undefined,
+          message
+        };
+      } catch (err) {
+        return {
+          error: err as Error,
+          message: undefined
+        };
+      }
+    }
+
+    return {
+      error: Error("unsupported data type"),
+      message: undefined
+    };
+  };
+
+  const format: TMessageParser["format"] = ({ message }) => {
+    return JSON.stringify(message);
+  };
+
+  return {
+    parse,
+    format
+  };
+};
+
+export {
+  createTransportJrpc,
+  createJsonParser
+};
+
+export type {
+  TTransport,
+  TTransportData,
+  TTransportJrpcHandle,
+  TMessageParser,
+  TJrpcOptions
+};
@@ -1,4 +1,7 @@
 /* c8 ignore start */
+import type { TRequestError } from "./errors.ts";
+import type { TTraceContext } from "./tracing.ts";
+
 type TJsonRpcParameterValue = Exclude<unknown, undefined>;
 type TRequestResponseValue = NonNullable<unknown> | null;
 
@@ -13,6 +16,22 @@ type TJsonRpcError = {
   data?: unknown;
 };
 
+// reserved by this library to carry metadata like deadlines along with requests
+type TJsonRpcMeta = {
+  // absolute deadline in milliseconds since the epoch
+  deadline?: number;
+  // W3C trace context of the span the request was sent from
+  traceparent?: string;
+};
+
+// unknown top-level fields of a received message, only kept with the passthrough strictness
+type TJsonRpcExtensions = Record<string, unknown>;
+
+// how received messages that deviate from the specification are treated: strict rejects unknown fields,
+// ignore drops them and passthrough hands them to the handlers as extensions, both of the latter also accept
+// a null result alongside an error and a null error alongside a result
+type TCoercionStrictness = "strict" | "ignore" | "passthrough";
+
 type TJsonRpcRequest = {
   jsonrpc: "2.0";
   id: TJsonRpcOptionalId;
@@ -20,6 +39,8 @@ type TJsonRpcRequest = {
   params?: TJsonRpcParameters;
   result?: undefined;
   error?: undefined;
+  $meta?: TJsonRpcMeta;
+  $extensions?: TJsonRpcExtensions;
 };
 
 type TJsonRpcNotification = {
@@ -29,6 +50,8 @@ type TJsonRpcNotification = {
   params?: TJsonRpcParameters;
   result?: undefined;
   error?: undefined;
+  $meta?: undefined;
+  $extensions?: TJsonRpcExtensions;
 };
 
 type TJsonRpcSuccessResponse = {
@@ -38,6 +61,8 @@ type TJsonRpcSuccessResponse = {
   params?: undefined;
   result: TRequestResponseValue;
   error?: undefined;
+  $meta?: undefined;
+  $extensions?: TJsonRpcExtensions;
 };
 
 type TJsonRpcErrorResponse = {
@@ -47,12 +72,48 @@ type TJsonRpcErrorResponse = {
   params?: undefined;
   result?: undefined;
   error: TJsonRpcError;
+  $meta?: undefined;
+  $extensions?: TJsonRpcExtensions;
 };
 
 type TJsonRpcResponse = TJsonRpcSuccessResponse | TJsonRpcErrorResponse;
 
 type TJsonRpcMessage = TJsonRpcRequest | TJsonRpcNotification | TJsonRpcResponse;
 
+type TJsonRpcBatch = TJsonRpcMessage[];
+
+type TJsonRpcProtocolVersion = "1.0" | "2.0";
+
+// a null id marks a notification
+type TJsonRpc1Request = {
+  method: string;
+  params: TJsonRpcParameterValue[];
+  id: TJsonRpcMandatoryId | null;
+};
+
+type TJsonRpc1Response = {
+  result: TRequestResponseValue;
+  error: unknown;
+  id: TJsonRpcOptionalId;
+};
+
+type TJsonRpc1Message = TJsonRpc1Request | TJsonRpc1Response;
+
+// how createJrpc hands outgoing messages to the transport, which depends on the protocol version
+type TJrpcTransportOptions = {
+  protocolVersion?: "2.0";
+  sendMessage: (args: { message: TJsonRpcMessage }) => void;
+  // sends an array of messages as one frame, as batch responses must be,
+  // without it received batches are rejected like any other invalid message and batch() throws
+  sendBatch?: (args: { messages: TJsonRpcBatch }) => void;
+} | {
+  // received messages are read as JSON-RPC 1.0 and $meta is dropped
+  protocolVersion: "1.0";
+  sendMessage: (args: { message: TJsonRpc1Message }) => void;
+  // unused, as JSON-RPC 1.0 has no batches and they are sent as individual messages
+  sendBatch?: (args: { messages: TJsonRpcBatch }) => void;
+};
+
 type TRequestErrorResponse = {
   result?: never;
   error: {
@@ -72,7 +133,8 @@ type TRequestResponse = {
 };
 
 type TRequestResult = {
-  error: Error;
+  // error responses of the peer are no failure of the request, they are found in response.error
+  error: TRequestError;
   response: undefined;
 } | {
   error: undefined;
@@ -93,11 +155,105 @@ type TRequestHandlerResponse = {
   error: undefined;
 };
 
-type TRequestHandler = (args: { method: string, params: TJsonRpcParameters | undefined }) => Promise<TRequestHandlerResponse>;
-type TNotificationHandler = (args: { method: string, params: TJsonRpcParameters | undefined }) => void;
+type TReportProgress = (args: { value: TJsonRpcParameterValue }) => void;
+type TProgressListener = (args: { value: unknown }) => void;
+type TStreamItemListener = (args: { value: unknown }) => void;
+
+type TRequestHandler = (args: {
+  method: string,
+  params: TJsonRpcParameters | undefined,
+  // aborted when the peer cancels the request, the deadline passes or the connection is closed
+  signal: AbortSignal,
+  // absolute deadline propagated by the peer, the remaining budget is deadline - Date.now()
+  deadline: number | undefined,
+  // context of the span opened for this request, pass it to outgoing requests to continue the trace
+  traceContext: TTraceContext | undefined,
+  extensions: TJsonRpcExtensions | undefined,
+  reportProgress: TReportProgress
+  // handlers may return an AsyncIterable to stream items to the peer
+}) => Promise<TRequestHandlerResponse> | AsyncIterable<TJsonRpcParameterValue>;
+type TNotificationHandler = (args: {
+  method: string,
+  params: TJsonRpcParameters | undefined,
+  extensions: TJsonRpcExtensions | undefined
+}) => void;
+
+// retries of a request, only suitable for idempotent methods
+type TRetryPolicy = {
+  // including the first attempt
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs?: number;
+  // multiplies the delay after each failed attempt, defaults to 2
+  backoffFactor?: number;
+  // fraction of the delay that is randomized, between 0 and 1, defaults to 0
+  jitter?: number;
+  // error responses of the peer with these codes are retried as well, timeouts, closed connections
+  // and failed sends always are
+  retryableErrorCodes?: number[];
+};
 
 type TNotifyMethod = (args: { method: string, params: TJsonRpcParameters }) => void;
-type TRequestMethod = (args: { method: string, params: TJsonRpcParameters, timeoutMs?: number }) => Promise<TRequestResult>;
+type TRequestMethod = (args: {
+  method: string,
+  params: TJsonRpcParameters,
+  timeoutMs?: number,
+  signal?: AbortSignal,
+  onProgress?: TProgressListener,
+  // parent of the span opened for this request
+  traceContext?: TTraceContext,
+  // ignored for requests in a batch, the batch is sent only once
+  retry?: TRetryPolicy
+}) => Promise<TRequestResult>;
+
+type TRequestStreamMethod = (args: {
+  method: string,
+  params: TJsonRpcParameters,
+  timeoutMs?: number,
+  signal?: AbortSignal,
+  traceContext?: TTraceContext
+}) => AsyncIterableIterator<unknown>;
+
+type TMiddlewareDirection = "inbound" | "outbound";
+
+// a middleware passes the (possibly rewritten) message on via next, or short-circuits it
+// via respondWithError, which answers the request the message belongs to with an error
+type TMiddleware = (args: {
+  direction: TMiddlewareDirection,
+  message: TJsonRpcMessage,
+  next: (args: { message: TJsonRpcMessage }) => void,
+  respondWithError: (args: { error: TJsonRpcError }) => void
+}) => void;
+
+// keyed mode serializes requests that share the key and runs requests with different keys in parallel
+type TDispatchMode = {
+  type: "concurrent";
+} | {
+  type: "sequential";
+} | {
+  type: "keyed";
+  key: (args: { method: string, params: TJsonRpcParameters | undefined }) => string;
+};
+
+type TBatch = {
+  request: TRequestMethod;
+  notify: TNotifyMethod;
+  send: () => void;
+};
+
+type TAbandonedRequest = {
+  id: TJsonRpcMandatoryId;
+  method: string;
+};
+
+// requests that had not settled when drain gave up waiting
+type TDrainResult = {
+  abandonedIncoming: TAbandonedRequest[];
+  abandonedOutgoing: TAbandonedRequest[];
+};
+
+// why a request had already settled when its response arrived
+type TLateResponseReason = "timeout" | "cancelled";
 
 export type {
   TJsonRpcRequest,
@@ -106,7 +262,17 @@ export type {
   TJsonRpcSuccessResponse,
   TJsonRpcErrorResponse,
   TJsonRpcMessage,
+  TJsonRpcMeta,
+  TJsonRpcExtensions,
+  TCoercionStrictness,
+  TJsonRpcBatch,
+  TJsonRpcProtocolVersion,
+  TJsonRpc1Request,
+  TJsonRpc1Response,
+  TJsonRpc1Message,
+  TJrpcTransportOptions,
   TJsonRpcParameters,
+  TJsonRpcParameterValue,
   TJsonRpcOptionalId,
   TJsonRpcMandatoryId,
   TRequestResponse,
@@ -121,6 +287,18 @@ export type {
   TRequestHandler,
   TNotificationHandler,
   TNotifyMethod,
-  TRequestMethod
+  TRequestMethod,
+  TRequestStreamMethod,
+  TRetryPolicy,
+  TReportProgress,
+  TProgressListener,
+  TStreamItemListener,
+  TMiddlewareDirection,
+  TMiddleware,
+  TDispatchMode,
+  TBatch,
+  TAbandonedRequest,
+  TDrainResult,
+  TLateResponseReason
 };
 /* c8 ignore end */
@@ -1,48 +1,26 @@
-import { createJrpc } from "./index.ts";
-import type { TJsonRpcMessage, TNotificationHandler, TRequestHandler } from "./jrpc.ts";
-
-type TMessageParseResult = {
-  error: Error;
-  message: undefined;
-} | {
-  error: undefined;
-  message: unknown;
-};
-
-type TWebSocketMessageParser = {
-  parse: (args: { data: string | Uint8Array }) => TMessageParseResult;
-  format: (args: { message: unknown }) => string | Uint8Array;
-};
-
-// eslint-disable-next-line max-statements
-const createWebSocketJrpc = ({
-  socket,
+import { createTransportJrpc } from "./transport.ts";
+import type { TJrpcOptions, TMessageParser, TTransport, TTransportData } from "./transport.ts";
+import type { TNotificationHandler, TRequestHandler } from "./jrpc.ts";
 
-  parser,
+type TWebSocketMessageParser = TMessageParser;
 
-  handleRequest,
-  handleNotification,
+const dataFromMessageEvent = ({ messageEvent }: { messageEvent: MessageEvent }): TTransportData => {
+  if (typeof messageEvent.data === "string") {
+    return messageEvent.data;
+  }
 
-  onConnectionError,
-  onRemoteClose
-}: {
-  socket: WebSocket,
+  if (messageEvent.data instanceof ArrayBuffer) {
+    return new Uint8Array(messageEvent.data);
+  }
 
-  parser: TWebSocketMessageParser;
-
-  handleRequest: TRequestHandler;
-  handleNotification: TNotificationHandler;
-
-  onConnectionError: (args: { error: Error }) => void;
-  onRemoteClose: () => void;
-}) => {
+  throw Error("unsupported WebSocket data type");
+};
 
-  let closedByUs = false;
-  let connectionError: Error | undefined = undefined;
+const createWebSocketTransport = ({ socket }: { socket: WebSocket }): TTransport => {
   // eslint-disable-next-line immutable/no-mutation
   socket.binaryType = "arraybuffer";
 
-  let sendQueue: (string | Uint8Array)[] = [];
+  let sendQueue: TTransportData[] = [];
 
   const maybeSendNext = () => {
     if (socket.readyState !== WebSocket.OPEN) {
@@ -60,149 +38,99 @@ const createWebSocketJrpc = ({
     maybeSendNext();
   });
 
-  const sendOrQueueRawMessage = ({ data }: { data: string | Uint8Array }) => {
+  socket.addEventListener("close", () => {
+    sendQueue = [];
+  });
+
+  const send: TTransport["send"] = ({ data }) => {
     // eslint-disable-next-line fp/no-mutating-methods
     sendQueue.push(data);
     maybeSendNext();
   };
 
-  const sendMessage = ({ message }: { message: TJsonRpcMessage }) => {
-    const encoded = parser.format({ message });
-    sendOrQueueRawMessage({ data: encoded });
+  const onMessage: TTransport["onMessage"] = ({ listener }) => {
+    socket.addEventListener("message", (event) => {
+      listener({ data: dataFromMessageEvent({ messageEvent: event }) });
+    });
   };
 
-  const jrpc = createJrpc({
-    sendMessage,
-    handleRequest,
-    handleNotification
-  });
-
-  const dataFromMessageEvent = ({ messageEvent }: { messageEvent: MessageEvent }): string | Uint8Array => {
-    if (typeof messageEvent.data === "string") {
-      return messageEvent.data;
-    }
-
-    if (messageEvent.data instanceof ArrayBuffer) {
-      return new Uint8Array(messageEvent.data);
-    }
+  const onClose: TTransport["onClose"] = ({ listener }) => {
+    socket.addEventListener("close", () => {
+      listener();
+    });
+  };
 
-    throw Error("unsupported WebSocket data type");
+  const onError: TTransport["onError"] = ({ listener }) => {
+    socket.addEventListener("error", () => {
+      listener({ error: Error("WebSocket connection error") });
+    });
   };
 
-  socket.addEventListener("message", (event) => {
+  const close = () => {
+    socket.close();
+  };
 
-    if (closedByUs) {
-      throw Error("WebSocket was closed by us, but received a message from remote");
-    }
+  return {
+    send,
+    onMessage,
+    onClose,
+    onError,
+    close
+  };
+};
 
-    const data = dataFromMessageEvent({ messageEvent: event });
+const createWebSocketJrpc = ({
+  socket,
 
-    const { error: parseError, message } = parser.parse({ data });
-    if (parseError !== undefined) {
-      closedByUs = true;
-      socket.close();
-      onConnectionError({
-        error: Error("failed to parse WebSocket message", { cause: parseError })
-      });
-      return;
-    }
+  parser,
 
-    const { error: jrpcError } = jrpc.receivedMessage({ message });
-    if (jrpcError !== undefined) {
-      closedByUs = true;
-      socket.close();
-      onConnectionError({
-        error: Error("failed to handle JRPC message", { cause: jrpcError })
-      });
-      return;
-    }
-  });
+  handleRequest,
+  handleNotification,
 
-  socket.addEventListener("close", () => {
-    sendQueue = [];
-    jrpc.close();
+  onConnectionError,
+  onRemoteClose,
 
-    if (closedByUs) {
-      return;
-    }
+  jrpcOptions = {}
+}: {
+  socket: WebSocket,
 
-    if (connectionError !== undefined) {
-      return;
-    }
+  parser: TWebSocketMessageParser;
 
-    onRemoteClose();
-  });
+  handleRequest: TRequestHandler;
+  handleNotification: TNotificationHandler;
 
-  socket.addEventListener("error", () => {
-    if (closedByUs) {
-      return;
-    }
+  onConnectionError: (args: { error: Error }) => void;
+  onRemoteClose: () => void;
 
-    const error = Error("WebSocket connection error");
-    connectionError = error;
+  // further options like middlewares, passed on to createJrpc
+  jrpcOptions?: TJrpcOptions;
+}) => {
 
-    onConnectionError({ error });
+  const jrpc = createTransportJrpc({
+    transport: createWebSocketTransport({ socket }),
+    parser,
+    handleRequest,
+    handleNotification,
+    onConnectionError,
+    onRemoteClose,
+    jrpcOptions
   });
 
-  const close = () => {
-    closedByUs = true;
-    socket.close();
-  };
-
   const bufferedAmount = () => {
     return socket.bufferedAmount;
   };
 
   return {
-    request: jrpc.request,
-    notify: jrpc.notify,
-
-    bufferedAmount,
-
-    close
+    ...jrpc,
+    bufferedAmount
   };
 };
 
 type TWebsocketJrpcHandle = ReturnType<typeof createWebSocketJrpc>;
 
-const createJsonParser = (): TWebSocketMessageParser => {
-
-  const parse: TWebSocketMessageParser["parse"] = ({ data }) => {
-
-    if (typeof data === "string") {
-      try {
-        const message = JSON.parse(data);
-        return {
-          error: undefined,
-          message
-        };
-      } catch (err) {
-        return {
-          error: err as Error,
-          message: undefined
-        };
-      }
-    }
-
-    return {
-      error: Error("unsupported WebSocket data type"),
-      message: undefined
-    };
-  };
-
-  const format: TWebSocketMessageParser["format"] = ({ message }) => {
-    return JSON.stringify(message);
-  };
-
-  return {
-    parse,
-    format
-  };
-};
-
 export {
   createWebSocketJrpc,
-  createJsonParser
+  createWebSocketTransport
 };
 
 export type {
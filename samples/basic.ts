@@ -5,6 +5,10 @@ const sideA = createJrpc({
     // eslint-disable-next-line no-use-before-define
     sideB.receivedMessage({ message });
   },
+  sendBatch: ({ messages }) => {
+    // eslint-disable-next-line no-use-before-define
+    sideB.receivedMessage({ message: messages });
+  },
 
   handleNotification: ({ method, params }) => {
     console.log("Side A received notification", { method, params });
@@ -24,6 +28,9 @@ const sideB = createJrpc({
   sendMessage: ({ message }) => {
     sideA.receivedMessage({ message });
   },
+  sendBatch: ({ messages }) => {
+    sideA.receivedMessage({ message: messages });
+  },
 
   handleNotification: ({ method, params }) => {
     console.log("Side B received notification", { method, params });
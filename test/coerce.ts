@@ -8,7 +8,10 @@ import {
   coerceMethod,
   coerceJrcpFields,
   coerceJrcpNotification,
-  coerceJrpcMessage
+  coerceJrpcMessage,
+  recoverId,
+  looksLikeResponse,
+  coerceMeta
 } from "../lib/coerce.ts";
 
 describe("coerceParams", () => {
@@ -507,15 +510,27 @@ describe("coerceJrpcMessage", () => {
       assert.deepEqual(result.jrpcMessage.error, { code: -32600, message: "Invalid Request", data: undefined });
     });
 
-    it("should reject error response with null id", () => {
+    it("should accept error response with null id", () => {
       const message = {
         jsonrpc: "2.0",
         id: null,
         error: { code: -32700, message: "Parse error" }
       };
       const result = coerceJrpcMessage({ message });
+      assert.equal(result.error, undefined);
+      assert.equal(result.jrpcMessage.id, null);
+      assert.deepEqual(result.jrpcMessage.error, { code: -32700, message: "Parse error", data: undefined });
+    });
+
+    it("should reject success response with null id", () => {
+      const message = {
+        jsonrpc: "2.0",
+        id: null,
+        result: "something"
+      };
+      const result = coerceJrpcMessage({ message });
       assert.ok(result.error instanceof Error);
-      assert.equal(result.error.message, "response must have an id");
+      assert.equal(result.error.message, "success response must not have a null id");
     });
 
     it("should accept success response with null result", () => {
@@ -693,3 +708,128 @@ describe("coerceJrpcMessage", () => {
     });
   });
 });
+
+describe("recoverId", () => {
+  it("should recover string and number ids", () => {
+    assert.equal(recoverId({ message: { id: 5, method: 1 } }), 5);
+    assert.equal(recoverId({ message: { id: "abc", params: "invalid" } }), "abc");
+  });
+
+  it("should fall back to null for unrecoverable ids", () => {
+    assert.equal(recoverId({ message: "not an object" }), null);
+    assert.equal(recoverId({ message: { id: { nested: true } } }), null);
+    assert.equal(recoverId({ message: { method: "noId" } }), null);
+  });
+});
+
+describe("looksLikeResponse", () => {
+  it("should detect messages with result or error but without method", () => {
+    assert.equal(looksLikeResponse({ message: { id: 1, result: "x" } }), true);
+    assert.equal(looksLikeResponse({ message: { id: null, error: {} } }), true);
+  });
+
+  it("should not treat requests as responses", () => {
+    assert.equal(looksLikeResponse({ message: { id: 1, method: "m", result: "x" } }), false);
+    assert.equal(looksLikeResponse({ message: { id: 1 } }), false);
+    assert.equal(looksLikeResponse({ message: 42 }), false);
+  });
+});
+
+describe("coerceMeta", () => {
+  it("should accept meta with a deadline", () => {
+    const result = coerceMeta({ meta: { deadline: 1700000000000 } });
+    assert.strictEqual(result.error, undefined);
+    assert.deepStrictEqual(result.meta, { deadline: 1700000000000 });
+  });
+
+  it("should accept meta without a deadline", () => {
+    const result = coerceMeta({ meta: {} });
+    assert.strictEqual(result.error, undefined);
+    assert.deepStrictEqual(result.meta, {});
+  });
+
+  it("should reject non-object meta", () => {
+    const result = coerceMeta({ meta: "soon" });
+    assert.ok(result.error);
+    assert.strictEqual(result.error.message, "invalid field type for $meta");
+  });
+
+  it("should reject non-numeric deadline", () => {
+    const result = coerceMeta({ meta: { deadline: "soon" } });
+    assert.ok(result.error);
+    assert.strictEqual(result.error.message, "invalid field type for $meta.deadline");
+  });
+
+  it("should reject non-finite deadline", () => {
+    const result = coerceMeta({ meta: { deadline: Infinity } });
+    assert.ok(result.error);
+    assert.strictEqual(result.error.message, "invalid field type for $meta.deadline");
+  });
+
+  it("should reject non-string traceparent", () => {
+    const result = coerceMeta({ meta: { traceparent: 42 } });
+    assert.ok(result.error);
+    assert.strictEqual(result.error.message, "invalid field type for $meta.traceparent");
+  });
+});
+
+describe("coerceJrpcMessage with JSON-RPC 1.0", () => {
+  it("should upgrade requests", () => {
+    const result = coerceJrpcMessage({ message: { method: "echo", params: [1], id: 1 }, protocolVersion: "1.0" });
+    assert.equal(result.error, undefined);
+    assert.deepEqual(result.jrpcMessage, { jsonrpc: "2.0", method: "echo", params: [1], id: 1 });
+  });
+
+  it("should upgrade success responses", () => {
+    const result = coerceJrpcMessage({ message: { result: 3, error: null, id: 1 }, protocolVersion: "1.0" });
+    assert.equal(result.error, undefined);
+    assert.deepEqual(result.jrpcMessage, { jsonrpc: "2.0", result: 3, id: 1 });
+  });
+
+  it("should reject named params", () => {
+    const result = coerceJrpcMessage({ message: { method: "echo", params: { a: 1 }, id: 1 }, protocolVersion: "1.0" });
+    assert.ok(result.error instanceof Error);
+  });
+});
+
+describe("coerceJrpcMessage strictness", () => {
+  const request = { jsonrpc: "2.0", id: 1, method: "echo", params: [], jsonrpc_ext: { vendor: "x" } };
+
+  it("should reject unknown fields when strict", () => {
+    const result = coerceJrpcMessage({ message: request, strictness: "strict" });
+    assert.ok(result.error instanceof Error);
+  });
+
+  it("should drop unknown fields when ignoring them", () => {
+    const result = coerceJrpcMessage({ message: request, strictness: "ignore" });
+    assert.equal(result.error, undefined);
+    assert.deepEqual(result.jrpcMessage, { jsonrpc: "2.0", id: 1, method: "echo", params: [] });
+  });
+
+  it("should keep unknown fields as extensions when passing them through", () => {
+    const result = coerceJrpcMessage({ message: request, strictness: "passthrough" });
+    assert.equal(result.error, undefined);
+    assert.deepEqual(result.jrpcMessage?.$extensions, { jsonrpc_ext: { vendor: "x" } });
+  });
+
+  it("should only accept a null result alongside an error when not strict", () => {
+    const message = { jsonrpc: "2.0", id: 1, result: null, error: { code: -32000, message: "failed" } };
+
+    assert.ok(coerceJrpcMessage({ message, strictness: "strict" }).error instanceof Error);
+
+    const result = coerceJrpcMessage({ message, strictness: "ignore" });
+    assert.equal(result.error, undefined);
+    assert.deepEqual(result.jrpcMessage?.error, { code: -32000, message: "failed", data: undefined });
+    assert.equal(result.jrpcMessage?.result, undefined);
+  });
+
+  it("should only accept a null error alongside a result when not strict", () => {
+    const message = { jsonrpc: "2.0", id: 1, result: 3, error: null };
+
+    assert.ok(coerceJrpcMessage({ message, strictness: "strict" }).error instanceof Error);
+
+    const result = coerceJrpcMessage({ message, strictness: "passthrough" });
+    assert.equal(result.error, undefined);
+    assert.deepEqual(result.jrpcMessage, { jsonrpc: "2.0", id: 1, result: 3 });
+  });
+});
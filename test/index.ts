@@ -1,7 +1,27 @@
 import assert from "node:assert";
 import { describe, it } from "mocha";
-import { createJrpc } from "../lib/index.ts";
-import type { TJsonRpcMessage, TRequestHandler, TNotificationHandler } from "../lib/jrpc.ts";
+import {
+  createCounterIdGenerator,
+  createErrorMapper,
+  createInMemorySpanExporter,
+  createJrpc,
+  createJsonParser,
+  createTracer,
+  createTransportJrpc,
+  isRequestError
+} from "../lib/index.ts";
+import type {
+  TConnectionEvent,
+  TDispatchMode,
+  TJsonRpcBatch,
+  TJsonRpcMessage,
+  TJsonRpc1Message,
+  TMiddleware,
+  TRequestHandler,
+  TNotificationHandler
+} from "../lib/jrpc.ts";
+import type { TTransport } from "../lib/transport.ts";
+import type { TJsonRpcError } from "../lib/types.ts";
 
 describe("createJrpc", () => {
   describe("request/response - success", () => {
@@ -171,132 +191,3195 @@ describe("createJrpc", () => {
       assert.strictEqual(result.error, undefined);
       assert.strictEqual(result.response?.result, "quick response");
     });
+
+    it("should apply the default timeout to requests without timeoutMs", async () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        defaultTimeoutMs: 50
+      });
+
+      const result = await client.request({ method: "ignoredMethod", params: {} });
+
+      assert.strictEqual(result.error?.message, "timeout");
+    });
+
+    it("should prefer timeoutMs of the request over the default timeout", async () => {
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          setTimeout(() => {
+            client.receivedMessage({ message: { jsonrpc: "2.0", id: message.id, result: "slow response" } });
+          }, 100);
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        defaultTimeoutMs: 20
+      });
+
+      const result = await client.request({ method: "slowMethod", params: {}, timeoutMs: 500 });
+
+      assert.strictEqual(result.response?.result, "slow response");
+    });
+
+    it("should not time out requests whose timeout is too long for a timer", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        defaultTimeoutMs: 2 ** 31,
+        propagateDeadline: true
+      });
+
+      let results: unknown[] = [];
+      client.request({ method: "slowMethod", params: {} }).then((result) => {
+        results = [...results, result];
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(results, []);
+      assert.strictEqual(sentMessages[0]?.$meta, undefined);
+      client.close();
+    });
+
+    it("should reject infinite timeouts", () => {
+      const createClient = ({ defaultTimeoutMs }: { defaultTimeoutMs?: number }) => {
+        return createJrpc({
+          sendMessage: () => {},
+          sendBatch: () => {},
+          handleRequest: async () => {
+            return { result: undefined, error: undefined };
+          },
+          handleNotification: () => {},
+          defaultTimeoutMs
+        });
+      };
+
+      assert.throws(() => {
+        createClient({ defaultTimeoutMs: Infinity });
+      }, /defaultTimeoutMs must be a finite number/);
+
+      const client = createClient({});
+
+      assert.throws(() => {
+        client.request({ method: "forever", params: {}, timeoutMs: Infinity });
+      }, /timeoutMs must be a finite number/);
+      assert.throws(() => {
+        client.batch().request({ method: "forever", params: {}, timeoutMs: NaN });
+      }, /timeoutMs must be a finite number/);
+    });
+  });
+
+  describe("request/response - late responses", () => {
+    const createClient = ({ tombstoneSize }: { tombstoneSize?: number } = {}) => {
+      let sentIds: unknown[] = [];
+      let lateResponses: unknown[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentIds = [...sentIds, message.id];
+        },
+        sendBatch: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        tombstoneSize,
+        onLateResponse: ({ id, method, reason, response }) => {
+          lateResponses = [...lateResponses, { id, method, reason, result: response.result }];
+        }
+      });
+
+      return {
+        client,
+        sentIds: () => {
+          return sentIds;
+        },
+        lateResponses: () => {
+          return lateResponses;
+        }
+      };
+    };
+
+    it("should pass responses to timed out requests to onLateResponse", async () => {
+      const { client, sentIds, lateResponses } = createClient();
+
+      const { error: requestError } = await client.request({ method: "slow", params: {}, timeoutMs: 10 });
+      assert.strictEqual(requestError?.kind, "timeout");
+
+      const [id] = sentIds() as number[];
+      const { error } = client.receivedMessage({ message: { jsonrpc: "2.0", id, result: "late" } });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(lateResponses(), [{ id, method: "slow", reason: "timeout", result: "late" }]);
+    });
+
+    it("should pass responses to cancelled requests to onLateResponse", async () => {
+      const { client, sentIds, lateResponses } = createClient();
+
+      const abortController = new AbortController();
+      const resultPromise = client.request({ method: "slow", params: {}, signal: abortController.signal });
+      abortController.abort();
+      await resultPromise;
+
+      const [id] = sentIds() as number[];
+      const { error } = client.receivedMessage({
+        message: { jsonrpc: "2.0", id, error: { code: -32800, message: "cancelled" } }
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(lateResponses(), [{ id, method: "slow", reason: "cancelled", result: undefined }]);
+    });
+
+    it("should accept only one late response per id", async () => {
+      const { client, sentIds } = createClient();
+
+      await client.request({ method: "slow", params: {}, timeoutMs: 10 });
+
+      const [id] = sentIds() as number[];
+      client.receivedMessage({ message: { jsonrpc: "2.0", id, result: "late" } });
+      const { error } = client.receivedMessage({ message: { jsonrpc: "2.0", id, result: "again" } });
+
+      assert.match(error?.message || "", /non-pending/);
+    });
+
+    it("should forget the oldest tombstones beyond tombstoneSize", async () => {
+      const { client, sentIds, lateResponses } = createClient({ tombstoneSize: 1 });
+
+      await Promise.all([
+        client.request({ method: "first", params: {}, timeoutMs: 10 }),
+        client.request({ method: "second", params: {}, timeoutMs: 20 })
+      ]);
+
+      const [firstId, secondId] = sentIds() as number[];
+
+      const { error: firstError } = client.receivedMessage({ message: { jsonrpc: "2.0", id: firstId, result: 1 } });
+      const { error: secondError } = client.receivedMessage({ message: { jsonrpc: "2.0", id: secondId, result: 2 } });
+
+      assert.match(firstError?.message || "", /non-pending/);
+      assert.strictEqual(secondError, undefined);
+      assert.deepStrictEqual(lateResponses(), [{ id: secondId, method: "second", reason: "timeout", result: 2 }]);
+    });
+  });
+
+  describe("request/response - deadline propagation", () => {
+    it("should send the absolute deadline in $meta when enabled", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        defaultTimeoutMs: 1000,
+        propagateDeadline: true
+      });
+
+      const before = Date.now();
+      client.request({ method: "withDeadline", params: {} });
+      client.close();
+
+      const deadline = sentMessages[0]?.$meta?.deadline ?? 0;
+      assert.ok(deadline >= before + 1000);
+      assert.ok(deadline <= Date.now() + 1000);
+    });
+
+    it("should not send $meta without propagateDeadline", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        defaultTimeoutMs: 1000
+      });
+
+      client.request({ method: "withoutDeadline", params: {} });
+      client.close();
+
+      assert.strictEqual(sentMessages[0]?.$meta, undefined);
+    });
+
+    it("should pass the deadline to the handler and abort it when the deadline passes", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let handlerDeadlines: (number | undefined)[] = [];
+      let abortReasons: unknown[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: ({ signal, deadline }) => {
+          handlerDeadlines = [...handlerDeadlines, deadline];
+
+          return new Promise((resolve) => {
+            signal.addEventListener("abort", () => {
+              abortReasons = [...abortReasons, signal.reason];
+              resolve({ result: "too late", error: undefined });
+            });
+          });
+        },
+        handleNotification: () => {}
+      });
+
+      const deadline = Date.now() + 30;
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "slowMethod", params: {}, $meta: { deadline } }
+      });
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, 80);
+      });
+
+      assert.deepStrictEqual(handlerDeadlines, [deadline]);
+      assert.strictEqual((abortReasons[0] as Error).message, "deadline exceeded");
+      assert.deepStrictEqual(sentMessages, []);
+    });
+
+    it("should answer requests whose deadline is too far ahead for a timer", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async ({ signal }) => {
+          await new Promise((resolve) => {
+            setTimeout(resolve, 10);
+          });
+
+          return { result: signal.aborted ? "aborted" : "done", error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const deadline = Date.now() + (30 * 24 * 60 * 60 * 1000);
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "patientMethod", params: {}, $meta: { deadline } }
+      });
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, 30);
+      });
+
+      assert.deepStrictEqual(sentMessages, [{ jsonrpc: "2.0", id: 1, result: "done" }]);
+    });
+
+    it("should not invoke the handler when the deadline has already passed", async () => {
+      let handlerCalls = 0;
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          handlerCalls += 1;
+          return { result: "result", error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "expired", params: {}, $meta: { deadline: Date.now() - 1 } }
+      });
+
+      await Promise.resolve();
+
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(handlerCalls, 0);
+      assert.deepStrictEqual(sentMessages, []);
+    });
+
+    it("should answer requests that finish before the deadline", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: "in time", error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "fast", params: {}, $meta: { deadline: Date.now() + 1000 } }
+      });
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(sentMessages, [{ jsonrpc: "2.0", id: 1, result: "in time" }]);
+    });
+  });
+
+  describe("request/response - cancellation", () => {
+    it("should resolve with a cancellation error when aborted", async () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const abortController = new AbortController();
+      const promise = client.request({
+        method: "slowMethod",
+        params: {},
+        signal: abortController.signal
+      });
+
+      abortController.abort(Error("navigated away"));
+
+      const result = await promise;
+
+      assert.strictEqual(result.error?.message, "request cancelled");
+      assert.strictEqual((result.error?.cause as Error).message, "navigated away");
+      assert.strictEqual(result.response, undefined);
+    });
+
+    it("should send the configured cancel notification with the request id", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest"
+      });
+
+      const abortController = new AbortController();
+      const promise = client.request({
+        method: "slowMethod",
+        params: {},
+        signal: abortController.signal
+      });
+
+      abortController.abort();
+      await promise;
+
+      assert.strictEqual(sentMessages.length, 2);
+      assert.deepStrictEqual(sentMessages[1], {
+        jsonrpc: "2.0",
+        method: "$/cancelRequest",
+        params: { id: sentMessages[0].id }
+      });
+    });
+
+    it("should not send anything for an already aborted signal", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest"
+      });
+
+      const result = await client.request({
+        method: "slowMethod",
+        params: {},
+        signal: AbortSignal.abort()
+      });
+
+      assert.strictEqual(result.error?.message, "request cancelled");
+      assert.strictEqual(sentMessages.length, 0);
+    });
+
+    it("should ignore aborts after the response was received", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest"
+      });
+
+      const abortController = new AbortController();
+      const promise = client.request({
+        method: "quickMethod",
+        params: {},
+        signal: abortController.signal
+      });
+
+      client.receivedMessage({
+        message: { jsonrpc: "2.0", id: sentMessages[0].id, result: "done" }
+      });
+
+      abortController.abort();
+
+      const result = await promise;
+
+      assert.strictEqual(result.error, undefined);
+      assert.strictEqual(result.response?.result, "done");
+      assert.strictEqual(sentMessages.length, 1);
+    });
+  });
+
+  describe("request/response - error kinds", () => {
+    const createSilentClient = ({ sendMessage }: { sendMessage: (args: { message: TJsonRpcMessage }) => void }) => {
+      return createJrpc({
+        sendMessage,
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+    };
+
+    it("should tell timeouts, cancellations and closed connections apart", async () => {
+      const client = createSilentClient({ sendMessage: () => {} });
+      const abortController = new AbortController();
+
+      const timeoutPromise = client.request({ method: "slow", params: {}, timeoutMs: 10 });
+      const cancelledPromise = client.request({ method: "slow", params: {}, signal: abortController.signal });
+      const closedPromise = client.request({ method: "slow", params: {} });
+
+      abortController.abort();
+      const timeoutResult = await timeoutPromise;
+      client.close();
+
+      const results = [timeoutResult, await cancelledPromise, await closedPromise];
+
+      assert.deepStrictEqual(results.map(({ error }) => {
+        return error?.kind;
+      }), ["timeout", "cancelled", "connection-closed"]);
+      assert.ok(results.every(({ error }) => {
+        return isRequestError(error);
+      }));
+    });
+
+    it("should report failing transports as send-failed", async () => {
+      const transportError = Error("socket gone");
+      const client = createSilentClient({
+        sendMessage: () => {
+          throw transportError;
+        }
+      });
+
+      const { error } = await client.request({ method: "unsent", params: {} });
+
+      assert.strictEqual(error?.kind, "send-failed");
+      assert.strictEqual(error?.cause, transportError);
+    });
+
+    it("should keep code and data of remote errors ending a stream", async () => {
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          client.receivedMessage({
+            message: { jsonrpc: "2.0", id: message.id as number, error: { code: 42, message: "nope", data: { why: "because" } } }
+          });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        streamNotificationMethod: "$/stream"
+      });
+
+      const iterator = client.requestStream({ method: "failing", params: {} });
+
+      await assert.rejects(async () => {
+        await iterator.next();
+      }, (error: Error) => {
+        return isRequestError(error) && error.kind === "remote-error" && error.code === 42 &&
+          JSON.stringify(error.data) === JSON.stringify({ why: "because" });
+      });
+    });
+  });
+
+  describe("request/response - retry", () => {
+    const createFlakyClient = ({ responses }: { responses: Array<TJsonRpcError | string | undefined> }) => {
+      let remainingResponses = responses;
+      let attempts = 0;
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          const [response, ...otherResponses] = remainingResponses;
+          remainingResponses = otherResponses;
+          attempts += 1;
+
+          if (response === undefined) {
+            // no answer, the attempt times out
+            return;
+          }
+
+          client.receivedMessage({
+            message: typeof response === "string"
+              ? { jsonrpc: "2.0", id: message.id as number, result: response }
+              : { jsonrpc: "2.0", id: message.id as number, error: response }
+          });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      return {
+        client,
+        attempts: () => {
+          return attempts;
+        }
+      };
+    };
+
+    it("should retry timed out attempts", async () => {
+      const { client, attempts } = createFlakyClient({ responses: [undefined, undefined, "third time lucky"] });
+
+      const result = await client.request({
+        method: "flaky",
+        params: {},
+        timeoutMs: 10,
+        retry: { maxAttempts: 3, initialDelayMs: 1 }
+      });
+
+      assert.strictEqual(result.response?.result, "third time lucky");
+      assert.strictEqual(attempts(), 3);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      const { client, attempts } = createFlakyClient({ responses: [undefined, undefined, undefined] });
+
+      const result = await client.request({
+        method: "flaky",
+        params: {},
+        timeoutMs: 10,
+        retry: { maxAttempts: 2, initialDelayMs: 1 }
+      });
+
+      assert.strictEqual(result.error?.message, "timeout");
+      assert.strictEqual(attempts(), 2);
+    });
+
+    it("should not send retries once the connection is closed", async () => {
+      const { client, attempts } = createFlakyClient({ responses: [undefined, undefined, undefined] });
+
+      const resultPromise = client.request({
+        method: "flaky",
+        params: {},
+        retry: { maxAttempts: 3, initialDelayMs: 1 }
+      });
+      client.close();
+
+      const result = await resultPromise;
+
+      assert.strictEqual(result.error?.kind, "connection-closed");
+      assert.strictEqual(attempts(), 1);
+    });
+
+    it("should retry only the configured error codes", async () => {
+      const busy = { code: -32000, message: "Server busy" };
+      const invalid = { code: -32602, message: "Invalid params" };
+
+      const { client, attempts } = createFlakyClient({ responses: [busy, invalid, "unreachable"] });
+
+      const result = await client.request({
+        method: "flaky",
+        params: {},
+        retry: { maxAttempts: 5, initialDelayMs: 1, retryableErrorCodes: [-32000] }
+      });
+
+      assert.strictEqual(result.response?.error?.code, -32602);
+      assert.strictEqual(attempts(), 2);
+    });
+
+    it("should stop retrying when the signal aborts during the backoff", async () => {
+      const { client, attempts } = createFlakyClient({ responses: [undefined, "unreachable"] });
+      const abortController = new AbortController();
+
+      setTimeout(() => {
+        abortController.abort();
+      }, 30);
+
+      const result = await client.request({
+        method: "flaky",
+        params: {},
+        timeoutMs: 10,
+        signal: abortController.signal,
+        retry: { maxAttempts: 2, initialDelayMs: 1000 }
+      });
+
+      assert.strictEqual(result.error?.message, "request cancelled");
+      assert.strictEqual(attempts(), 1);
+    });
+  });
+
+  describe("id generation", () => {
+    it("should use the given id generator for outgoing requests", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        idGenerator: createCounterIdGenerator({ prefix: "session-a-" })
+      });
+
+      client.request({ method: "first", params: {} });
+      client.request({ method: "second", params: {} });
+
+      assert.deepStrictEqual(sentMessages.map(({ id }) => {
+        return id;
+      }), ["session-a-0", "session-a-1"]);
+    });
+
+    it("should keep numeric and string ids distinct", async () => {
+      const ids: (string | number)[] = [1, "1"];
+      let nextIndex = 0;
+
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        idGenerator: () => {
+          const id = ids[nextIndex];
+          nextIndex += 1;
+          return id;
+        }
+      });
+
+      const numericPromise = client.request({ method: "numeric", params: {} });
+      const stringPromise = client.request({ method: "string", params: {} });
+
+      client.receivedMessage({ message: { jsonrpc: "2.0", id: "1", result: "for string" } });
+      client.receivedMessage({ message: { jsonrpc: "2.0", id: 1, result: "for number" } });
+
+      const [numericResult, stringResult] = await Promise.all([numericPromise, stringPromise]);
+
+      assert.strictEqual(numericResult.response?.result, "for number");
+      assert.strictEqual(stringResult.response?.result, "for string");
+    });
+
+    it("should fail requests as send-failed when the generator returns a pending id", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        idGenerator: () => {
+          return "always-the-same";
+        }
+      });
+
+      client.request({ method: "first", params: {} });
+      const { error } = await client.request({ method: "second", params: {} });
+
+      assert.strictEqual(error?.kind, "send-failed");
+      assert.match(String((error?.cause as Error).message), /still pending/);
+      assert.strictEqual(sentMessages.length, 1);
+    });
+
+    it("should leave batch requests with a pending id out of the batch", async () => {
+      let sentBatches: TJsonRpcBatch[] = [];
+
+      const client = createJrpc({
+        sendMessage: () => {},
+        sendBatch: ({ messages }) => {
+          sentBatches = [...sentBatches, messages];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        idGenerator: () => {
+          return "always-the-same";
+        }
+      });
+
+      const batch = client.batch();
+      batch.request({ method: "first", params: {} });
+      const secondPromise = batch.request({ method: "second", params: {} });
+      batch.send();
+
+      const { error } = await secondPromise;
+
+      assert.strictEqual(error?.kind, "send-failed");
+      assert.strictEqual(sentBatches.length, 1);
+      assert.deepStrictEqual(sentBatches[0].map((message) => {
+        return "method" in message ? message.method : undefined;
+      }), ["first"]);
+    });
+  });
+
+  describe("outgoing concurrency limit", () => {
+    const createLimitedClient = ({ maxInFlight }: { maxInFlight: number }) => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let depths: number[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest",
+        maxInFlight,
+        onOutgoingQueueDepthChange: ({ depth }) => {
+          depths = [...depths, depth];
+        }
+      });
+
+      return {
+        client,
+        sentMessages: () => {
+          return sentMessages;
+        },
+        depths: () => {
+          return depths;
+        }
+      };
+    };
+
+    it("should queue requests beyond maxInFlight and send them once a slot frees up", async () => {
+      const { client, sentMessages, depths } = createLimitedClient({ maxInFlight: 2 });
+
+      const promises = ["a", "b", "c"].map((method) => {
+        return client.request({ method, params: {} });
+      });
+
+      assert.deepStrictEqual(sentMessages().map(({ method }) => {
+        return method;
+      }), ["a", "b"]);
+      assert.strictEqual(client.outgoingQueueDepth(), 1);
+
+      client.receivedMessage({ message: { jsonrpc: "2.0", id: 0, result: "a done" } });
+
+      assert.deepStrictEqual(sentMessages().map(({ method }) => {
+        return method;
+      }), ["a", "b", "c"]);
+      assert.strictEqual(client.outgoingQueueDepth(), 0);
+      assert.deepStrictEqual(depths(), [1, 0]);
+
+      client.receivedMessage({ message: { jsonrpc: "2.0", id: 1, result: "b done" } });
+      client.receivedMessage({ message: { jsonrpc: "2.0", id: 2, result: "c done" } });
+
+      const results = await Promise.all(promises);
+      assert.deepStrictEqual(results.map(({ response }) => {
+        return response?.result;
+      }), ["a done", "b done", "c done"]);
+    });
+
+    it("should apply timeouts to queued requests", async () => {
+      const { client, sentMessages } = createLimitedClient({ maxInFlight: 1 });
+
+      client.request({ method: "blocking", params: {} });
+      const result = await client.request({ method: "queued", params: {}, timeoutMs: 20 });
+
+      assert.strictEqual(result.error?.message, "timeout");
+      assert.strictEqual(client.outgoingQueueDepth(), 0);
+      assert.strictEqual(sentMessages().length, 1);
+
+      client.close();
+    });
+
+    it("should drop cancelled requests from the queue without notifying the peer", async () => {
+      const { client, sentMessages } = createLimitedClient({ maxInFlight: 1 });
+      const abortController = new AbortController();
+
+      client.request({ method: "blocking", params: {} });
+      const promise = client.request({ method: "queued", params: {}, signal: abortController.signal });
+
+      abortController.abort();
+      const result = await promise;
+
+      assert.strictEqual(result.error?.message, "request cancelled");
+      assert.strictEqual(client.outgoingQueueDepth(), 0);
+
+      client.receivedMessage({ message: { jsonrpc: "2.0", id: 0, result: "done" } });
+
+      assert.deepStrictEqual(sentMessages().map(({ method }) => {
+        return method;
+      }), ["blocking"]);
+    });
+
+    it("should not send queued requests when the connection is closed", async () => {
+      const { client, sentMessages } = createLimitedClient({ maxInFlight: 1 });
+
+      const promises = [
+        client.request({ method: "blocking", params: {} }),
+        client.request({ method: "queued", params: {} })
+      ];
+
+      client.close();
+      const results = await Promise.all(promises);
+
+      assert.deepStrictEqual(results.map(({ error }) => {
+        return error?.message;
+      }), ["connection closed", "connection closed"]);
+      assert.strictEqual(sentMessages().length, 1);
+    });
+  });
+
+  describe("handleRequest - incoming requests", () => {
+    it("should handle incoming request with success result", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      const handleRequest: TRequestHandler = async ({ method, params }) => {
+        assert.strictEqual(method, "incomingMethod");
+        assert.deepStrictEqual(params, { input: "data" });
+        return {
+          result: { processed: true },
+          error: undefined
+        };
+      };
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest,
+        handleNotification: () => {}
+      });
+
+      const { error } = client.receivedMessage({
+        message: {
+          jsonrpc: "2.0",
+          id: 42,
+          method: "incomingMethod",
+          params: { input: "data" }
+        }
+      });
+
+      assert.strictEqual(error, undefined);
+
+      // Wait for async handler to complete
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 50);
+      });
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual(sentMessages[0].id, 42);
+      assert.deepStrictEqual(sentMessages[0].result, { processed: true });
+    });
+
+    it("should handle incoming request with error result", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      const handleRequest: TRequestHandler = async ({ method }) => {
+        return {
+          result: undefined,
+          error: {
+            code: -32601,
+            message: "Method not found",
+            data: { method }
+          }
+        };
+      };
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest,
+        handleNotification: () => {}
+      });
+
+      client.receivedMessage({
+        message: {
+          jsonrpc: "2.0",
+          id: 123,
+          method: "unknownMethod",
+          params: {}
+        }
+      });
+
+      // Wait for async handler to complete
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 50);
+      });
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual(sentMessages[0].id, 123);
+      assert.deepStrictEqual(sentMessages[0].error, {
+        code: -32601,
+        message: "Method not found",
+        data: { method: "unknownMethod" }
+      });
+    });
+
+    it("should handle incoming request with no response (ignore)", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      const handleRequest: TRequestHandler = async () => {
+        return {
+          result: undefined,
+          error: undefined
+        };
+      };
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest,
+        handleNotification: () => {}
+      });
+
+      client.receivedMessage({
+        message: {
+          jsonrpc: "2.0",
+          id: 999,
+          method: "ignoredMethod",
+          params: {}
+        }
+      });
+
+      // Wait for async handler to complete
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 50);
+      });
+
+      // No response should be sent
+      assert.strictEqual(sentMessages.length, 0);
+    });
+    it("should abort the handler signal on cancel notification and drop the result", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let handlerSignals: AbortSignal[] = [];
+
+      const handleRequest: TRequestHandler = async ({ signal }) => {
+        handlerSignals = [...handlerSignals, signal];
+        await new Promise((resolve) => {
+          return setTimeout(resolve, 20);
+        });
+        return { result: "late result", error: undefined };
+      };
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest,
+        handleNotification: () => {
+          throw Error("cancel notification must not reach the notification handler");
+        },
+        cancelNotificationMethod: "$/cancelRequest"
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 7, method: "longRunning", params: {} }
+      });
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", method: "$/cancelRequest", params: { id: 7 } }
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(handlerSignals[0].aborted, true);
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 50);
+      });
+
+      assert.strictEqual(sentMessages.length, 0);
+    });
+
+    it("should abort running handler signals on close", () => {
+      let handlerSignals: AbortSignal[] = [];
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async ({ signal }) => {
+          handlerSignals = [...handlerSignals, signal];
+          return await new Promise(() => {});
+        },
+        handleNotification: () => {}
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "neverEnding", params: {} }
+      });
+
+      assert.strictEqual(handlerSignals[0].aborted, false);
+
+      server.close();
+
+      assert.strictEqual(handlerSignals[0].aborted, true);
+      assert.strictEqual((handlerSignals[0].reason as Error).message, "connection closed");
+    });
+  });
+
+  describe("incoming concurrency limit", () => {
+    const createLimitedServer = (options: {
+      maxRunningHandlers?: number,
+      maxRunningHandlersPerMethod?: Record<string, number>,
+      maxQueuedHandlers?: number
+    }) => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let startedMethods: string[] = [];
+      let finishHandlers: (() => void)[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: ({ method }) => {
+          startedMethods = [...startedMethods, method];
+
+          return new Promise((resolve) => {
+            finishHandlers = [...finishHandlers, () => {
+              resolve({ result: `${method} done`, error: undefined });
+            }];
+          });
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest",
+        ...options
+      });
+
+      const finishNext = async () => {
+        const [finishHandler, ...otherFinishHandlers] = finishHandlers;
+        finishHandlers = otherFinishHandlers;
+        finishHandler();
+
+        await new Promise((resolve) => {
+          setTimeout(resolve, 0);
+        });
+      };
+
+      return {
+        server,
+        finishNext,
+        sentMessages: () => {
+          return sentMessages;
+        },
+        startedMethods: () => {
+          return startedMethods;
+        }
+      };
+    };
+
+    it("should queue requests beyond maxRunningHandlers", async () => {
+      const { server, finishNext, sentMessages, startedMethods } = createLimitedServer({ maxRunningHandlers: 1 });
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "first", params: {} } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 2, method: "second", params: {} } });
+
+      assert.deepStrictEqual(startedMethods(), ["first"]);
+
+      await finishNext();
+
+      assert.deepStrictEqual(startedMethods(), ["first", "second"]);
+
+      await finishNext();
+
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: 1, result: "first done" },
+        { jsonrpc: "2.0", id: 2, result: "second done" }
+      ]);
+    });
+
+    it("should let requests for other methods pass a method limit", async () => {
+      const { server, startedMethods } = createLimitedServer({ maxRunningHandlersPerMethod: { slow: 1 } });
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "slow", params: {} } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 2, method: "slow", params: {} } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 3, method: "fast", params: {} } });
+
+      assert.deepStrictEqual(startedMethods(), ["slow", "fast"]);
+    });
+
+    it("should answer with the server busy error when the queue is full", () => {
+      const { server, sentMessages, startedMethods } = createLimitedServer({
+        maxRunningHandlers: 1,
+        maxQueuedHandlers: 0
+      });
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "first", params: {} } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 2, method: "second", params: {} } });
+
+      assert.deepStrictEqual(startedMethods(), ["first"]);
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: 2, error: { code: -32000, message: "Server busy" } }
+      ]);
+    });
+
+    it("should drop queued requests cancelled by the peer", async () => {
+      const { server, finishNext, sentMessages, startedMethods } = createLimitedServer({ maxRunningHandlers: 1 });
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "first", params: {} } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 2, method: "second", params: {} } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", method: "$/cancelRequest", params: { id: 2 } } });
+
+      await finishNext();
+
+      assert.deepStrictEqual(startedMethods(), ["first"]);
+      assert.deepStrictEqual(sentMessages(), [{ jsonrpc: "2.0", id: 1, result: "first done" }]);
+    });
+  });
+
+  describe("dispatch modes", () => {
+    const createServer = ({ dispatchMode }: { dispatchMode: TDispatchMode }) => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let startedIds: unknown[] = [];
+      let finishHandlers: Record<string, () => void> = {};
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: ({ params }) => {
+          const { name } = params as { name: string };
+          startedIds = [...startedIds, name];
+
+          return new Promise((resolve) => {
+            finishHandlers = {
+              ...finishHandlers,
+              [name]: () => {
+                resolve({ result: name, error: undefined });
+              }
+            };
+          });
+        },
+        handleNotification: () => {},
+        dispatchMode
+      });
+
+      const receive = ({ id, method, name, device }: { id: number, method: string, name: string, device?: string }) => {
+        server.receivedMessage({ message: { jsonrpc: "2.0", id, method, params: { name, device } } });
+      };
+
+      const finish = async ({ name }: { name: string }) => {
+        finishHandlers[name]();
+
+        await new Promise((resolve) => {
+          setTimeout(resolve, 0);
+        });
+      };
+
+      return {
+        receive,
+        finish,
+        startedIds: () => {
+          return startedIds;
+        },
+        sentMessages: () => {
+          return sentMessages;
+        }
+      };
+    };
+
+    it("should run handlers concurrently in concurrent mode", () => {
+      const { receive, startedIds } = createServer({ dispatchMode: { type: "concurrent" } });
+
+      receive({ id: 1, method: "write", name: "a" });
+      receive({ id: 2, method: "write", name: "b" });
+
+      assert.deepStrictEqual(startedIds(), ["a", "b"]);
+    });
+
+    it("should run handlers one after another in sequential mode", async () => {
+      const { receive, finish, startedIds, sentMessages } = createServer({ dispatchMode: { type: "sequential" } });
+
+      receive({ id: 1, method: "write", name: "a" });
+      receive({ id: 2, method: "read", name: "b" });
+      receive({ id: 3, method: "write", name: "c" });
+
+      assert.deepStrictEqual(startedIds(), ["a"]);
+
+      await finish({ name: "a" });
+      assert.deepStrictEqual(startedIds(), ["a", "b"]);
+
+      await finish({ name: "b" });
+      await finish({ name: "c" });
+
+      assert.deepStrictEqual(sentMessages().map(({ id }) => {
+        return id;
+      }), [1, 2, 3]);
+    });
+
+    it("should serialize requests with the same key in keyed mode", async () => {
+      const { receive, finish, startedIds } = createServer({
+        dispatchMode: {
+          type: "keyed",
+          key: ({ params }) => {
+            return (params as { device: string }).device;
+          }
+        }
+      });
+
+      receive({ id: 1, method: "write", name: "a1", device: "a" });
+      receive({ id: 2, method: "write", name: "b1", device: "b" });
+      receive({ id: 3, method: "write", name: "a2", device: "a" });
+
+      assert.deepStrictEqual(startedIds(), ["a1", "b1"]);
+
+      await finish({ name: "b1" });
+      assert.deepStrictEqual(startedIds(), ["a1", "b1"]);
+
+      await finish({ name: "a1" });
+      assert.deepStrictEqual(startedIds(), ["a1", "b1", "a2"]);
+    });
+  });
+
+  describe("duplicate request ids", () => {
+    const createServer = ({ duplicateRequestPolicy }: { duplicateRequestPolicy: "reject" | "ignore" | "replay" }) => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let handlerCalls = 0;
+      let finishHandlers: (() => void)[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: () => {
+          handlerCalls += 1;
+          const result = `call ${handlerCalls}`;
+
+          return new Promise((resolve) => {
+            finishHandlers = [...finishHandlers, () => {
+              resolve({ result, error: undefined });
+            }];
+          });
+        },
+        handleNotification: () => {},
+        duplicateRequestPolicy
+      });
+
+      const finishAll = async () => {
+        finishHandlers.forEach((finishHandler) => {
+          finishHandler();
+        });
+        finishHandlers = [];
+
+        await new Promise((resolve) => {
+          setTimeout(resolve, 0);
+        });
+      };
+
+      const receive = () => {
+        return server.receivedMessage({ message: { jsonrpc: "2.0", id: 7, method: "work", params: {} } });
+      };
+
+      return {
+        receive,
+        finishAll,
+        sentMessages: () => {
+          return sentMessages;
+        },
+        handlerCalls: () => {
+          return handlerCalls;
+        }
+      };
+    };
+
+    it("should reject requests reusing the id of a running request", async () => {
+      const { receive, finishAll, sentMessages, handlerCalls } = createServer({ duplicateRequestPolicy: "reject" });
+
+      receive();
+      const { error } = receive();
+      await finishAll();
+
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(handlerCalls(), 1);
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: 7, error: { code: -32600, message: "Invalid Request", data: "duplicate request id" } },
+        { jsonrpc: "2.0", id: 7, result: "call 1" }
+      ]);
+    });
+
+    it("should ignore duplicates with the ignore policy", async () => {
+      const { receive, finishAll, sentMessages, handlerCalls } = createServer({ duplicateRequestPolicy: "ignore" });
+
+      receive();
+      receive();
+      await finishAll();
+
+      assert.strictEqual(handlerCalls(), 1);
+      assert.deepStrictEqual(sentMessages(), [{ jsonrpc: "2.0", id: 7, result: "call 1" }]);
+    });
+
+    it("should accept reused ids once the earlier request is answered", async () => {
+      const { receive, finishAll, sentMessages, handlerCalls } = createServer({ duplicateRequestPolicy: "reject" });
+
+      receive();
+      await finishAll();
+      receive();
+      await finishAll();
+
+      assert.strictEqual(handlerCalls(), 2);
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: 7, result: "call 1" },
+        { jsonrpc: "2.0", id: 7, result: "call 2" }
+      ]);
+    });
+
+    it("should replay the response for running and answered requests", async () => {
+      const { receive, finishAll, sentMessages, handlerCalls } = createServer({ duplicateRequestPolicy: "replay" });
+
+      receive();
+      receive();
+      await finishAll();
+      receive();
+
+      assert.strictEqual(handlerCalls(), 1);
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: 7, result: "call 1" },
+        { jsonrpc: "2.0", id: 7, result: "call 1" },
+        { jsonrpc: "2.0", id: 7, result: "call 1" }
+      ]);
+    });
+  });
+
+  describe("progress", () => {
+    it("should deliver reported progress to the request listener", async () => {
+      let progressValues: unknown[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message });
+        },
+        sendBatch: ({ messages }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message: messages });
+        },
+        handleRequest: async ({ reportProgress }) => {
+          reportProgress({ value: { percent: 50 } });
+          reportProgress({ value: { percent: 100 } });
+          return { result: "imported", error: undefined };
+        },
+        handleNotification: () => {},
+        progressNotificationMethod: "$/progress"
+      });
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          server.receivedMessage({ message });
+        },
+        sendBatch: ({ messages }) => {
+          server.receivedMessage({ message: messages });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {
+          throw Error("progress notification must not reach the notification handler");
+        },
+        progressNotificationMethod: "$/progress"
+      });
+
+      const result = await client.request({
+        method: "import",
+        params: {},
+        onProgress: ({ value }) => {
+          progressValues = [...progressValues, value];
+        }
+      });
+
+      assert.strictEqual(result.response?.result, "imported");
+      assert.deepStrictEqual(progressValues, [{ percent: 50 }, { percent: 100 }]);
+    });
+
+    it("should send progress notifications carrying the request id as token", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async ({ reportProgress }) => {
+          reportProgress({ value: 1 });
+          return { result: "done", error: undefined };
+        },
+        handleNotification: () => {},
+        progressNotificationMethod: "$/progress"
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: "job-1", method: "import", params: {} }
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(sentMessages, [
+        { jsonrpc: "2.0", method: "$/progress", params: { token: "job-1", value: 1 } },
+        { jsonrpc: "2.0", id: "job-1", result: "done" }
+      ]);
+    });
+
+    it("should not send progress without a configured notification method", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async ({ reportProgress }) => {
+          reportProgress({ value: 1 });
+          return { result: "done", error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "import", params: {} }
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual(sentMessages[0].result, "done");
+    });
+  });
+
+  describe("streaming", () => {
+    const createStreamingPair = ({ handleRequest }: { handleRequest: TRequestHandler }) => {
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message });
+        },
+        sendBatch: ({ messages }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message: messages });
+        },
+        handleRequest,
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest",
+        streamNotificationMethod: "$/stream"
+      });
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          server.receivedMessage({ message });
+        },
+        sendBatch: ({ messages }) => {
+          server.receivedMessage({ message: messages });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest",
+        streamNotificationMethod: "$/stream"
+      });
+
+      return { client, server };
+    };
+
+    const createCountingIterable = ({ count, onReturn }: { count: number, onReturn?: () => void }): AsyncIterable<number> => {
+      return {
+        [Symbol.asyncIterator]: () => {
+          let current = 0;
+
+          return {
+            next: async () => {
+              await new Promise((resolve) => {
+                return setTimeout(resolve, 1);
+              });
+
+              if (current >= count) {
+                return { done: true, value: undefined };
+              }
+
+              current += 1;
+              return { done: false, value: current };
+            },
+            return: async () => {
+              onReturn?.();
+              return { done: true, value: undefined };
+            }
+          };
+        }
+      };
+    };
+
+    it("should deliver all items of a streaming handler", async () => {
+      const { client } = createStreamingPair({
+        handleRequest: () => {
+          return createCountingIterable({ count: 3 });
+        }
+      });
+
+      let items: unknown[] = [];
+      for await (const item of client.requestStream({ method: "tail", params: {} })) {
+        items = [...items, item];
+      }
+
+      assert.deepStrictEqual(items, [1, 2, 3]);
+    });
+
+    it("should end the iterator with an error when the producer fails", async () => {
+      const { client } = createStreamingPair({
+        handleRequest: () => {
+          return {
+            [Symbol.asyncIterator]: () => {
+              return {
+                next: async () => {
+                  throw Error("disk on fire");
+                }
+              };
+            }
+          };
+        }
+      });
+
+      const iterator = client.requestStream({ method: "tail", params: {} });
+
+      await assert.rejects(async () => {
+        await iterator.next();
+      }, (error: Error) => {
+        return isRequestError(error) && error.kind === "remote-error" && error.code === -32603;
+      });
+
+      const afterError = await iterator.next();
+      assert.strictEqual(afterError.done, true);
+    });
+
+    it("should cancel the remote producer on early return", async () => {
+      let producerReturned = false;
+
+      const { client } = createStreamingPair({
+        handleRequest: () => {
+          return createCountingIterable({
+            count: 1000,
+            onReturn: () => {
+              producerReturned = true;
+            }
+          });
+        }
+      });
+
+      let items: unknown[] = [];
+      for await (const item of client.requestStream({ method: "tail", params: {} })) {
+        items = [...items, item];
+        if (items.length === 2) {
+          break;
+        }
+      }
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 20);
+      });
+
+      assert.deepStrictEqual(items, [1, 2]);
+      assert.strictEqual(producerReturned, true);
+    });
+
+    it("should finish the handler on early return while the producer waits for its next item", async () => {
+      let releaseProducer = () => {};
+      const producerWaiting = new Promise<void>((resolve) => {
+        releaseProducer = resolve;
+      });
+
+      const { client, server } = createStreamingPair({
+        handleRequest: () => {
+          return (async function* () {
+            yield 1;
+            // e.g. a log tail without new lines
+            await producerWaiting;
+            yield 2;
+          })();
+        }
+      });
+
+      const iterator = client.requestStream({ method: "tail", params: {} });
+      const first = await iterator.next();
+      await iterator.return?.();
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      const { runningIncoming } = server.stats();
+      const drainResult = await server.drain({ timeoutMs: 10 });
+      releaseProducer();
+
+      assert.deepStrictEqual(first, { done: false, value: 1 });
+      assert.deepStrictEqual(runningIncoming, []);
+      assert.deepStrictEqual(drainResult.abandonedIncoming, []);
+    });
+
+    it("should answer with an internal error when streaming is not enabled", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: () => {
+          return createCountingIterable({ count: 1 });
+        },
+        handleNotification: () => {}
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "tail", params: {} }
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual(sentMessages[0].error?.code, -32603);
+    });
+  });
+
+  describe("middlewares", () => {
+    it("should pass inbound and outbound messages through the middlewares in order", async () => {
+      let log: string[] = [];
+
+      const createLoggingMiddleware = ({ name }: { name: string }): TMiddleware => {
+        return ({ direction, message, next }) => {
+          log = [...log, `${name} ${direction} ${message.method ?? "response"}`];
+          next({ message });
+        };
+      };
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: "ok", error: undefined };
+        },
+        handleNotification: () => {},
+        middlewares: [
+          createLoggingMiddleware({ name: "first" }),
+          createLoggingMiddleware({ name: "second" })
+        ]
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "ping" }
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(log, [
+        "first inbound ping",
+        "second inbound ping",
+        "first outbound response",
+        "second outbound response"
+      ]);
+    });
+
+    it("should let middlewares rewrite params", async () => {
+      let receivedParams: unknown[] = [];
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async ({ params }) => {
+          receivedParams = [...receivedParams, params];
+          return { result: "ok", error: undefined };
+        },
+        handleNotification: () => {},
+        middlewares: [
+          ({ message, next }) => {
+            next({ message: { ...message, params: { rewritten: true } } as TJsonRpcMessage });
+          }
+        ]
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "ping", params: { rewritten: false } }
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(receivedParams, [{ rewritten: true }]);
+    });
+
+    it("should answer short-circuited inbound requests with the error", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          throw Error("handler must not be called");
+        },
+        handleNotification: () => {},
+        middlewares: [
+          ({ direction, next, message, respondWithError }) => {
+            if (direction === "inbound") {
+              respondWithError({ error: { code: -32001, message: "Unauthorized" } });
+              return;
+            }
+
+            next({ message });
+          }
+        ]
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 5, method: "secret" }
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(sentMessages, [
+        { jsonrpc: "2.0", id: 5, error: { code: -32001, message: "Unauthorized" } }
+      ]);
+    });
+
+    it("should not hold back batch responses for requests dropped by middlewares", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let sentBatches: TJsonRpcBatch[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        sendBatch: ({ messages }) => {
+          sentBatches = [...sentBatches, messages];
+        },
+        handleRequest: async () => {
+          return { result: "ok", error: undefined };
+        },
+        handleNotification: () => {},
+        middlewares: [
+          ({ direction, message, next }) => {
+            if (direction === "inbound" && message.method === "dropped") {
+              return;
+            }
+
+            next({ message });
+          }
+        ]
+      });
+
+      server.receivedMessage({
+        message: [
+          { jsonrpc: "2.0", id: 1, method: "dropped" },
+          { jsonrpc: "2.0", id: 2, method: "ping" }
+        ]
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(sentMessages, []);
+      assert.deepStrictEqual(sentBatches, [
+        [{ jsonrpc: "2.0", id: 2, result: "ok" }]
+      ]);
+    });
+
+    it("should answer batch requests that middlewares pass on later on by themselves", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let sentBatches: TJsonRpcBatch[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        sendBatch: ({ messages }) => {
+          sentBatches = [...sentBatches, messages];
+        },
+        handleRequest: async () => {
+          return { result: "ok", error: undefined };
+        },
+        handleNotification: () => {},
+        middlewares: [
+          ({ direction, message, next }) => {
+            if (direction === "inbound" && message.method === "deferred") {
+              setTimeout(() => {
+                next({ message });
+              }, 5);
+              return;
+            }
+
+            next({ message });
+          }
+        ]
+      });
+
+      server.receivedMessage({
+        message: [
+          { jsonrpc: "2.0", id: 1, method: "deferred" },
+          { jsonrpc: "2.0", id: 2, method: "ping" }
+        ]
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 20);
+      });
+
+      assert.deepStrictEqual(sentBatches, [
+        [{ jsonrpc: "2.0", id: 2, result: "ok" }]
+      ]);
+      assert.deepStrictEqual(sentMessages, [
+        { jsonrpc: "2.0", id: 1, result: "ok" }
+      ]);
+    });
+
+    it("should resolve short-circuited outbound requests locally", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        middlewares: [
+          ({ respondWithError }) => {
+            respondWithError({ error: { code: -32002, message: "Offline" } });
+          }
+        ]
+      });
+
+      const result = await client.request({ method: "fetch", params: {} });
+
+      assert.strictEqual(sentMessages.length, 0);
+      assert.deepStrictEqual(result.response?.error, { code: -32002, message: "Offline" });
+    });
+  });
+
+  describe("handler failures", () => {
+    const receiveAndCollect = async ({
+      handleRequest,
+      mapError
+    }: {
+      handleRequest: TRequestHandler,
+      mapError?: Parameters<typeof createJrpc>[0]["mapError"]
+    }) => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest,
+        handleNotification: () => {},
+        mapError
+      });
+
+      server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "failing" }
+      });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      return sentMessages;
+    };
+
+    it("should answer rejecting handlers with an internal error", async () => {
+      const sentMessages = await receiveAndCollect({
+        handleRequest: async () => {
+          throw Error("database unavailable");
+        }
+      });
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual(sentMessages[0].id, 1);
+      assert.strictEqual(sentMessages[0].error?.code, -32603);
+      assert.strictEqual(sentMessages[0].error?.message, "Internal error");
+      assert.strictEqual(sentMessages[0].error?.data, undefined);
+    });
+
+    it("should answer synchronously throwing handlers with an internal error", async () => {
+      const sentMessages = await receiveAndCollect({
+        handleRequest: () => {
+          throw Error("not even async");
+        }
+      });
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual(sentMessages[0].error?.code, -32603);
+    });
+
+    it("should shape the error with a custom mapError", async () => {
+      const sentMessages = await receiveAndCollect({
+        handleRequest: async () => {
+          throw Error("database unavailable");
+        },
+        mapError: ({ error, method }) => {
+          return {
+            message: `${method} failed`,
+            data: { reason: (error as Error).message }
+          };
+        }
+      });
+
+      assert.deepStrictEqual(sentMessages[0].error, {
+        code: -32603,
+        message: "failing failed",
+        data: { reason: "database unavailable" }
+      });
+    });
+
+    it("should include stack and cause chain in development mode", async () => {
+      const sentMessages = await receiveAndCollect({
+        handleRequest: async () => {
+          throw Error("query failed", { cause: Error("connection refused") });
+        },
+        mapError: createErrorMapper({ development: true })
+      });
+
+      const data = sentMessages[0].error?.data as {
+        message: string,
+        stack: string,
+        causes: { message: string }[]
+      };
+
+      assert.strictEqual(data.message, "query failed");
+      assert.match(data.stack, /query failed/);
+      assert.deepStrictEqual(data.causes.map(({ message }) => {
+        return message;
+      }), ["connection refused"]);
+    });
+
+    it("should answer with an internal error and free the handler slot when mapError throws", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          throw Error("database unavailable");
+        },
+        handleNotification: () => {},
+        mapError: () => {
+          throw Error("mapper broken");
+        },
+        maxRunningHandlers: 1
+      });
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "failing" } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 2, method: "failing" } });
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.deepStrictEqual(sentMessages, [
+        { jsonrpc: "2.0", id: 1, error: { code: -32603, message: "Internal error" } },
+        { jsonrpc: "2.0", id: 2, error: { code: -32603, message: "Internal error" } }
+      ]);
+      assert.deepStrictEqual(server.stats().runningIncoming, []);
+    });
+  });
+
+  describe("notifications", () => {
+    it("should send notifications without id", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      client.notify({
+        method: "notificationMethod",
+        params: { event: "test" }
+      });
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual(sentMessages[0].method, "notificationMethod");
+      assert.strictEqual(sentMessages[0].id, undefined);
+      assert.deepStrictEqual(sentMessages[0].params, { event: "test" });
+    });
+
+    it("should handle incoming notifications", () => {
+      let receivedNotifications: Array<{ method: string, params: unknown }> = [];
+      const handleNotification: TNotificationHandler = ({ method, params }) => {
+        receivedNotifications = [...receivedNotifications, { method, params }];
+      };
+
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification
+      });
+
+      client.receivedMessage({
+        message: {
+          jsonrpc: "2.0",
+          method: "notifyEvent",
+          params: { data: "notification data" }
+        }
+      });
+
+      assert.strictEqual(receivedNotifications.length, 1);
+      assert.strictEqual(receivedNotifications[0].method, "notifyEvent");
+      assert.deepStrictEqual(receivedNotifications[0].params, { data: "notification data" });
+    });
+  });
+
+  describe("batch", () => {
+    it("should answer a received batch with one batched response", async () => {
+      let sentBatches: TJsonRpcBatch[] = [];
+      let receivedNotifications: string[] = [];
+
+      const server = createJrpc({
+        sendMessage: () => {
+          throw Error("expected batched response");
+        },
+        sendBatch: ({ messages }) => {
+          sentBatches = [...sentBatches, messages];
+        },
+        handleRequest: async ({ method }) => {
+          if (method === "silent") {
+            return { result: undefined, error: undefined };
+          }
+
+          return { result: `result-${method}`, error: undefined };
+        },
+        handleNotification: ({ method }) => {
+          receivedNotifications = [...receivedNotifications, method];
+        }
+      });
+
+      const { error } = server.receivedMessage({
+        message: [
+          { jsonrpc: "2.0", id: 1, method: "first" },
+          { jsonrpc: "2.0", method: "notified" },
+          { jsonrpc: "2.0", id: 2, method: "silent" },
+          { jsonrpc: "2.0", id: 3, method: "second" }
+        ]
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(receivedNotifications, ["notified"]);
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.strictEqual(sentBatches.length, 1);
+      assert.deepStrictEqual(sentBatches[0], [
+        { jsonrpc: "2.0", id: 1, result: "result-first" },
+        { jsonrpc: "2.0", id: 3, result: "result-second" }
+      ]);
+    });
+
+    it("should answer invalid batch entries with invalid request errors", async () => {
+      let sentBatches: TJsonRpcBatch[] = [];
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        sendBatch: ({ messages }) => {
+          sentBatches = [...sentBatches, messages];
+        },
+        handleRequest: async () => {
+          return { result: "ok", error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const { error } = server.receivedMessage({
+        message: [1, { jsonrpc: "2.0", id: 1, method: "valid" }]
+      });
+
+      assert.strictEqual(error, undefined);
+
+      await new Promise((resolve) => {
+        return setTimeout(resolve, 10);
+      });
+
+      assert.strictEqual(sentBatches.length, 1);
+      assert.deepStrictEqual(sentBatches[0], [
+        { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid Request" } },
+        { jsonrpc: "2.0", id: 1, result: "ok" }
+      ]);
+    });
+
+    it("should answer an empty batch with a single invalid request error", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        sendBatch: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const { error } = server.receivedMessage({ message: [] });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(sentMessages, [
+        { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid Request" } }
+      ]);
+    });
+
+    it("should not respond to a batch of notifications", () => {
+      let sentCount = 0;
+
+      const server = createJrpc({
+        sendMessage: () => {
+          sentCount += 1;
+        },
+        sendBatch: () => {
+          sentCount += 1;
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      server.receivedMessage({
+        message: [
+          { jsonrpc: "2.0", method: "a" },
+          { jsonrpc: "2.0", method: "b" }
+        ]
+      });
+
+      assert.strictEqual(sentCount, 0);
+    });
+
+    it("should send queued requests and notifications as one batch", async () => {
+      let sentBatches: TJsonRpcBatch[] = [];
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        sendBatch: ({ messages }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message: messages });
+        },
+        handleRequest: async ({ params }) => {
+          return { result: params, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const client = createJrpc({
+        sendMessage: () => {},
+        sendBatch: ({ messages }) => {
+          sentBatches = [...sentBatches, messages];
+          server.receivedMessage({ message: messages });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const batch = client.batch();
+      const promise1 = batch.request({ method: "echo", params: [1] });
+      batch.notify({ method: "event", params: {} });
+      const promise2 = batch.request({ method: "echo", params: [2] });
+      batch.send();
+
+      const [result1, result2] = await Promise.all([promise1, promise2]);
+
+      assert.strictEqual(sentBatches.length, 1);
+      assert.strictEqual(sentBatches[0].length, 3);
+      assert.deepStrictEqual(result1.response?.result, [1]);
+      assert.deepStrictEqual(result2.response?.result, [2]);
+    });
+
+    it("should leave requests aborted before sending out of the batch without notifying the peer", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let sentBatches: TJsonRpcBatch[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        sendBatch: ({ messages }) => {
+          sentBatches = [...sentBatches, messages];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest"
+      });
+
+      const controller = new AbortController();
+
+      const batch = client.batch();
+      const abortedPromise = batch.request({ method: "aborted", params: [], signal: controller.signal });
+      batch.request({ method: "kept", params: [] });
+
+      controller.abort();
+      const abortedResult = await abortedPromise;
+      batch.send();
+
+      assert.strictEqual(abortedResult.error?.kind, "cancelled");
+      assert.deepStrictEqual(sentMessages, []);
+      assert.strictEqual(sentBatches.length, 1);
+      assert.deepStrictEqual(sentBatches[0].map((message) => {
+        return "method" in message ? message.method : undefined;
+      }), ["kept"]);
+    });
+
+    it("should notify the peer about requests aborted after the batch was sent", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        sendBatch: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        cancelNotificationMethod: "$/cancelRequest"
+      });
+
+      const controller = new AbortController();
+
+      const batch = client.batch();
+      batch.request({ method: "aborted", params: [], signal: controller.signal });
+      batch.send();
+      controller.abort();
+
+      assert.strictEqual(sentMessages.length, 1);
+      assert.strictEqual("method" in sentMessages[0] ? sentMessages[0].method : undefined, "$/cancelRequest");
+    });
+
+    it("should reject received batches and throw on batch() without sendBatch", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const { error } = server.receivedMessage({ message: [{ jsonrpc: "2.0", id: 1, method: "echo" }] });
+
+      assert.ok(error instanceof Error);
+      assert.deepStrictEqual(sentMessages, []);
+      assert.throws(() => {
+        server.batch();
+      }, /batches require the sendBatch option/);
+    });
+
+    it("should throw when using a batch after it was sent", () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        sendBatch: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const batch = client.batch();
+      batch.send();
+
+      assert.throws(() => {
+        batch.notify({ method: "late", params: {} });
+      }, /batch already sent/);
+    });
+  });
+
+  describe("tolerant mode", () => {
+    const createTolerantServer = ({
+      shouldDisconnect
+    }: {
+      shouldDisconnect?: (args: { error: Error, violationCount: number }) => boolean
+    } = {}) => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        sendBatch: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        tolerant: true,
+        shouldDisconnect
+      });
+
+      return {
+        server,
+        sentMessages: () => {
+          return sentMessages;
+        }
+      };
+    };
+
+    it("should answer invalid requests with the recovered id", () => {
+      const { server, sentMessages } = createTolerantServer();
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 3, method: 42 }
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: 3, error: { code: -32600, message: "Invalid Request" } }
+      ]);
+    });
+
+    it("should answer invalid requests with null id if the id can not be recovered", () => {
+      const { server, sentMessages } = createTolerantServer();
+
+      const { error } = server.receivedMessage({ message: "garbage" });
+
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(sentMessages()[0].id, null);
+      assert.strictEqual(sentMessages()[0].error?.code, -32600);
+    });
+
+    it("should answer parse errors", () => {
+      const { server, sentMessages } = createTolerantServer();
+
+      const { error } = server.receivedParseError({ error: Error("unexpected token") });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }
+      ]);
+    });
+
+    it("should not answer invalid responses", () => {
+      const { server, sentMessages } = createTolerantServer();
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, result: "x", error: { code: 1, message: "both" } }
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(sentMessages().length, 0);
+    });
+
+    it("should report violations once the policy decides to disconnect", () => {
+      const { server } = createTolerantServer({
+        shouldDisconnect: ({ violationCount }) => {
+          return violationCount >= 3;
+        }
+      });
+
+      const results = [1, 2, 3].map(() => {
+        return server.receivedMessage({ message: { jsonrpc: "1.0" } }).error;
+      });
+
+      assert.strictEqual(results[0], undefined);
+      assert.strictEqual(results[1], undefined);
+      assert.match(results[2]?.message ?? "", /invalid jsonrpc version/);
+    });
+
+    it("should not answer parse errors in strict mode", () => {
+      let sentCount = 0;
+
+      const server = createJrpc({
+        sendMessage: () => {
+          sentCount += 1;
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const { error } = server.receivedParseError({ error: Error("unexpected token") });
+
+      assert.strictEqual(error?.message, "unexpected token");
+      assert.strictEqual(sentCount, 0);
+    });
+  });
+
+  describe("message limits", () => {
+    const createLimitedServer = ({ tolerant = false }: { tolerant?: boolean } = {}) => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let handledMethods: string[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async ({ method }) => {
+          handledMethods = [...handledMethods, method];
+          return { result: null, error: undefined };
+        },
+        handleNotification: () => {},
+        tolerant,
+        limits: {
+          maxDepth: 3,
+          maxEntries: 4,
+          maxMethodLength: 8
+        }
+      });
+
+      return {
+        server,
+        sentMessages: () => {
+          return sentMessages;
+        },
+        handledMethods: () => {
+          return handledMethods;
+        }
+      };
+    };
+
+    it("should accept messages within the limits", async () => {
+      const { server, handledMethods } = createLimitedServer();
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "work", params: [[1, 2, 3, 4]] }
+      });
+      await new Promise((resolve) => {
+        setTimeout(resolve, 0);
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(handledMethods(), ["work"]);
+    });
+
+    it("should reject messages nested too deeply", () => {
+      const { server, handledMethods } = createLimitedServer();
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "work", params: [[[1]]] }
+      });
+
+      assert.ok(error instanceof Error);
+      assert.ok(error.message.includes("nested deeper than 3 levels"));
+      assert.deepStrictEqual(handledMethods(), []);
+    });
+
+    it("should handle deeply nested messages without limits", async () => {
+      let handledMethods: string[] = [];
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async ({ method }) => {
+          handledMethods = [...handledMethods, method];
+          return { result: null, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const params = JSON.parse(`${"[".repeat(200000)}${"]".repeat(200000)}`);
+      const { error } = server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "work", params } });
+      await new Promise((resolve) => {
+        setTimeout(resolve, 0);
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(handledMethods, ["work"]);
+    });
+
+    it("should reject deeply nested messages beyond maxDepth without exhausting the stack", () => {
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: null, error: undefined };
+        },
+        handleNotification: () => {},
+        limits: { maxDepth: 1000 }
+      });
+
+      const params = JSON.parse(`${"[".repeat(200000)}${"]".repeat(200000)}`);
+      const { error } = server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "work", params } });
+
+      assert.ok(error instanceof Error);
+      assert.ok(error.message.includes("nested deeper than 1000 levels"));
+    });
+
+    it("should reject arrays and objects with too many entries", () => {
+      const { server } = createLimitedServer();
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "work", params: [1, 2, 3, 4, 5] }
+      });
+
+      assert.ok(error instanceof Error);
+      assert.ok(error.message.includes("more than 4 entries"));
+    });
+
+    it("should reject batches with too many entries", () => {
+      const { server } = createLimitedServer();
+
+      const entry = { jsonrpc: "2.0", method: "tick" };
+      const { error } = server.receivedMessage({ message: [entry, entry, entry, entry, entry] });
+
+      assert.ok(error instanceof Error);
+    });
+
+    it("should reject method names that are too long", () => {
+      const { server } = createLimitedServer();
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "veryLongMethod" }
+      });
+
+      assert.ok(error instanceof Error);
+      assert.ok(error.message.includes("longer than 8 characters"));
+    });
+
+    it("should answer violations with Invalid Request in tolerant mode", () => {
+      const { server, sentMessages } = createLimitedServer({ tolerant: true });
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 9, method: "veryLongMethod" }
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(sentMessages(), [
+        { jsonrpc: "2.0", id: 9, error: { code: -32600, message: "Invalid Request" } }
+      ]);
+    });
   });
 
-  describe("handleRequest - incoming requests", () => {
-    it("should handle incoming request with success result", async () => {
-      let sentMessages: TJsonRpcMessage[] = [];
-      const handleRequest: TRequestHandler = async ({ method, params }) => {
-        assert.strictEqual(method, "incomingMethod");
-        assert.deepStrictEqual(params, { input: "data" });
-        return {
-          result: { processed: true },
-          error: undefined
-        };
+  describe("strictness", () => {
+    it("should pass unknown fields to handlers as extensions", async () => {
+      let requestExtensions: unknown[] = [];
+      let notificationExtensions: unknown[] = [];
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async ({ extensions }) => {
+          requestExtensions = [...requestExtensions, extensions];
+          return { result: null, error: undefined };
+        },
+        handleNotification: ({ extensions }) => {
+          notificationExtensions = [...notificationExtensions, extensions];
+        },
+        strictness: "passthrough"
+      });
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "work", meta: { tenant: "a" } } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", method: "tick", jsonrpc_ext: 1 } });
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 2, method: "work" } });
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, 0);
+      });
+
+      assert.deepStrictEqual(requestExtensions, [{ meta: { tenant: "a" } }, undefined]);
+      assert.deepStrictEqual(notificationExtensions, [{ jsonrpc_ext: 1 }]);
+    });
+
+    it("should reject unknown fields by default", () => {
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: null, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const { error } = server.receivedMessage({ message: { jsonrpc: "2.0", method: "tick", jsonrpc_ext: 1 } });
+
+      assert.ok(error instanceof Error);
+    });
+  });
+
+  describe("JSON-RPC 1.0 compatibility", () => {
+    const createJrpc1Peer = () => {
+      let sentMessages: TJsonRpc1Message[] = [];
+      let notifications: unknown[] = [];
+
+      const peer = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: async ({ method, params }) => {
+          if (method === "fail") {
+            return { result: undefined, error: { code: -32001, message: "failed" } };
+          }
+
+          return { result: params, error: undefined };
+        },
+        handleNotification: ({ method, params }) => {
+          notifications = [...notifications, { method, params }];
+        },
+        protocolVersion: "1.0"
+      });
+
+      return {
+        peer,
+        sentMessages: () => {
+          return sentMessages;
+        },
+        notifications: () => {
+          return notifications;
+        }
+      };
+    };
+
+    it("should answer requests with both result and error", async () => {
+      const { peer, sentMessages } = createJrpc1Peer();
+
+      const { error } = peer.receivedMessage({ message: { method: "echo", params: [1, 2], id: 4 } });
+      await new Promise((resolve) => {
+        setTimeout(resolve, 0);
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(sentMessages(), [{ result: [1, 2], error: null, id: 4 }]);
+    });
+
+    it("should answer failed requests with a null result", async () => {
+      const { peer, sentMessages } = createJrpc1Peer();
+
+      peer.receivedMessage({ message: { method: "fail", params: [], id: 5 } });
+      await new Promise((resolve) => {
+        setTimeout(resolve, 0);
+      });
+
+      assert.deepStrictEqual(sentMessages(), [{ result: null, error: { code: -32001, message: "failed" }, id: 5 }]);
+    });
+
+    it("should treat requests with null id as notifications", () => {
+      const { peer, sentMessages, notifications } = createJrpc1Peer();
+
+      const { error } = peer.receivedMessage({ message: { method: "tick", params: [1], id: null } });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(notifications(), [{ method: "tick", params: [1] }]);
+      assert.deepStrictEqual(sentMessages(), []);
+    });
+
+    it("should send requests and notifications without the jsonrpc member", async () => {
+      const { peer, sentMessages } = createJrpc1Peer();
+
+      const resultPromise = peer.request({ method: "add", params: [1, 2] });
+      peer.notify({ method: "tick", params: { count: 1 } });
+
+      const [requestMessage, notificationMessage] = sentMessages();
+      assert.deepStrictEqual(requestMessage, { method: "add", params: [1, 2], id: requestMessage.id });
+      assert.deepStrictEqual(notificationMessage, { method: "tick", params: [{ count: 1 }], id: null });
+
+      peer.receivedMessage({ message: { result: 3, error: null, id: requestMessage.id } });
+
+      const { error, response } = await resultPromise;
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(response?.result, 3);
+    });
+
+    it("should wrap error responses without code and message", async () => {
+      const { peer, sentMessages } = createJrpc1Peer();
+
+      const resultPromise = peer.request({ method: "add", params: [1, 2] });
+      const [requestMessage] = sentMessages();
+
+      peer.receivedMessage({ message: { result: null, error: "overflow", id: requestMessage.id } });
+
+      const { response } = await resultPromise;
+      assert.deepStrictEqual(response?.error, { code: -32000, message: "overflow", data: "overflow" });
+    });
+
+    it("should reject batches", () => {
+      const { peer } = createJrpc1Peer();
+
+      const { error } = peer.receivedMessage({ message: [{ method: "echo", params: [], id: 1 }] });
+
+      assert.ok(error instanceof Error);
+    });
+
+    it("should reject named params", () => {
+      const { peer } = createJrpc1Peer();
+
+      const { error } = peer.receivedMessage({ message: { method: "echo", params: { a: 1 }, id: 1 } });
+
+      assert.ok(error instanceof Error);
+    });
+
+    it("should exchange progress, stream items and cancellation between two peers", async () => {
+      let cancelledMethods: string[] = [];
+
+      const reservedMethods = {
+        cancelNotificationMethod: "$/cancelRequest",
+        progressNotificationMethod: "$/progress",
+        streamNotificationMethod: "$/stream"
       };
 
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message });
+        },
+        handleRequest: ({ method, signal, reportProgress }) => {
+          if (method === "numbers") {
+            return (async function* () {
+              yield 1;
+              yield 2;
+            })();
+          }
+
+          if (method === "wait") {
+            return new Promise((resolve) => {
+              signal.addEventListener("abort", () => {
+                cancelledMethods = [...cancelledMethods, method];
+                resolve({ result: undefined, error: undefined });
+              });
+            });
+          }
+
+          reportProgress({ value: 50 });
+          return Promise.resolve({ result: "done", error: undefined });
+        },
+        handleNotification: () => {
+          throw Error("reserved notifications must not reach the notification handler");
+        },
+        protocolVersion: "1.0",
+        ...reservedMethods
+      });
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          server.receivedMessage({ message });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {
+          throw Error("reserved notifications must not reach the notification handler");
+        },
+        protocolVersion: "1.0",
+        ...reservedMethods
+      });
+
+      let progressValues: unknown[] = [];
+      await client.request({
+        method: "import",
+        params: [],
+        onProgress: ({ value }) => {
+          progressValues = [...progressValues, value];
+        }
+      });
+
+      let streamItems: unknown[] = [];
+      for await (const item of client.requestStream({ method: "numbers", params: [] })) {
+        streamItems = [...streamItems, item];
+      }
+
+      const controller = new AbortController();
+      const cancelledPromise = client.request({ method: "wait", params: [], signal: controller.signal });
+      controller.abort();
+      await cancelledPromise;
+      await new Promise((resolve) => {
+        setTimeout(resolve, 0);
+      });
+
+      assert.deepStrictEqual(progressValues, [50]);
+      assert.deepStrictEqual(streamItems, [1, 2]);
+      assert.deepStrictEqual(cancelledMethods, ["wait"]);
+    });
+  });
+
+  describe("close", () => {
+    it("should reject all pending requests on close", async () => {
+      const client = createJrpc({
+        sendMessage: () => {
+          // Never send response
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const promise1 = client.request({ method: "method1", params: {} });
+      const promise2 = client.request({ method: "method2", params: {} });
+
+      client.close();
+
+      const [result1, result2] = await Promise.all([promise1, promise2]);
+
+      assert.notStrictEqual(result1.error, undefined);
+      assert.strictEqual(result1.error?.message, "connection closed");
+      assert.notStrictEqual(result2.error, undefined);
+      assert.strictEqual(result2.error?.message, "connection closed");
+    });
+
+    it("should ignore closing a closed connection", async () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const promise = client.request({ method: "method1", params: {} });
+
+      client.close();
+      client.close();
+
+      const { error } = await promise;
+      assert.strictEqual(error?.kind, "connection-closed");
+    });
+
+    it("should throw on receivedMessage after close", () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      client.close();
+
+      assert.throws(() => {
+        client.receivedMessage({
+          message: {
+            jsonrpc: "2.0",
+            method: "test"
+          }
+        });
+      }, /connection closed/);
+    });
+  });
+
+  describe("drain", () => {
+    it("should reject new incoming requests and wait for running handlers", async () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+      let finishHandlers: (() => void)[] = [];
+
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
+        },
+        handleRequest: () => {
+          return new Promise((resolve) => {
+            finishHandlers = [...finishHandlers, () => {
+              resolve({ result: "done", error: undefined });
+            }];
+          });
+        },
+        handleNotification: () => {}
+      });
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 1, method: "running", params: {} } });
+
+      const drainPromise = server.drain();
+
+      server.receivedMessage({ message: { jsonrpc: "2.0", id: 2, method: "late", params: {} } });
+      finishHandlers[0]();
+
+      const result = await drainPromise;
+
+      assert.deepStrictEqual(result, { abandonedIncoming: [], abandonedOutgoing: [] });
+      assert.deepStrictEqual(sentMessages, [
+        { jsonrpc: "2.0", id: 2, error: { code: -32000, message: "Server shutting down" } },
+        { jsonrpc: "2.0", id: 1, result: "done" }
+      ]);
+      assert.doesNotThrow(() => {
+        server.close();
+      });
+    });
+
+    it("should wait for outgoing requests to settle", async () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const requestPromise = client.request({ method: "pending", params: {} });
+      const drainPromise = client.drain();
+
+      client.receivedMessage({ message: { jsonrpc: "2.0", id: 0, result: "answered" } });
+
+      const [requestResult, drainResult] = await Promise.all([requestPromise, drainPromise]);
+
+      assert.strictEqual(requestResult.response?.result, "answered");
+      assert.deepStrictEqual(drainResult, { abandonedIncoming: [], abandonedOutgoing: [] });
+    });
+
+    it("should close and report abandoned requests after the timeout", async () => {
+      const peer = createJrpc({
+        sendMessage: () => {},
+        handleRequest: () => {
+          return new Promise(() => {});
+        },
+        handleNotification: () => {}
+      });
+
+      peer.receivedMessage({ message: { jsonrpc: "2.0", id: "in-1", method: "stuckHandler", params: {} } });
+      const requestPromise = peer.request({ method: "stuckRequest", params: {} });
+
+      const drainResult = await peer.drain({ timeoutMs: 20 });
+      const requestResult = await requestPromise;
+
+      assert.deepStrictEqual(drainResult, {
+        abandonedIncoming: [{ id: "in-1", method: "stuckHandler" }],
+        abandonedOutgoing: [{ id: 0, method: "stuckRequest" }]
+      });
+      assert.strictEqual(requestResult.error?.message, "connection closed");
+    });
+
+    it("should return the same promise when called twice", () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      assert.strictEqual(client.drain(), client.drain());
+    });
+  });
+
+  describe("stats", () => {
+    it("should list pending outgoing and running incoming requests", () => {
+      const peer = createJrpc({
+        sendMessage: () => {},
+        handleRequest: () => {
+          return new Promise(() => {});
+        },
+        handleNotification: () => {}
+      });
+
+      peer.request({ method: "outgoing", params: {} });
+      peer.receivedMessage({ message: { jsonrpc: "2.0", id: "in-1", method: "incoming", params: {} } });
+
+      const { pendingOutgoing, runningIncoming } = peer.stats();
+
+      assert.deepStrictEqual(pendingOutgoing.map(({ id, method }) => {
+        return { id, method };
+      }), [{ id: 0, method: "outgoing" }]);
+      assert.deepStrictEqual(runningIncoming.map(({ id, method }) => {
+        return { id, method };
+      }), [{ id: "in-1", method: "incoming" }]);
+      assert.ok(pendingOutgoing[0].ageMs >= 0);
+
+      peer.close();
+    });
+
+    it("should count messages in both directions", () => {
+      const client = createJrpc({
+        sendMessage: () => {},
+        sendBatch: () => {},
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      client.notify({ method: "single", params: {} });
+
+      const batch = client.batch();
+      batch.notify({ method: "first", params: {} });
+      batch.notify({ method: "second", params: {} });
+      batch.send();
+
+      client.receivedMessage({ message: { jsonrpc: "2.0", method: "incoming" } });
+
+      assert.deepStrictEqual(client.stats().messages, { inbound: 1, outbound: 3 });
+      assert.deepStrictEqual(client.stats().bytes, { inbound: 0, outbound: 0 });
+    });
+
+    it("should compute latency percentiles per method", () => {
       const client = createJrpc({
         sendMessage: ({ message }) => {
-          sentMessages = [...sentMessages, message];
+          client.receivedMessage({ message: { jsonrpc: "2.0", id: message.id as number, result: "ok" } });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
         },
-        handleRequest,
         handleNotification: () => {}
       });
 
-      const { error } = client.receivedMessage({
-        message: {
-          jsonrpc: "2.0",
-          id: 42,
-          method: "incomingMethod",
-          params: { input: "data" }
-        }
-      });
-
-      assert.strictEqual(error, undefined);
+      client.request({ method: "instant", params: {} });
+      client.request({ method: "instant", params: {} });
 
-      // Wait for async handler to complete
-      await new Promise((resolve) => {
-        return setTimeout(resolve, 50);
-      });
+      const { latency } = client.stats();
 
-      assert.strictEqual(sentMessages.length, 1);
-      assert.strictEqual(sentMessages[0].id, 42);
-      assert.deepStrictEqual(sentMessages[0].result, { processed: true });
+      assert.deepStrictEqual(Object.keys(latency), ["instant"]);
+      assert.strictEqual(latency.instant.count, 2);
+      assert.ok(latency.instant.p50 <= latency.instant.p99);
     });
 
-    it("should handle incoming request with error result", async () => {
-      let sentMessages: TJsonRpcMessage[] = [];
-      const handleRequest: TRequestHandler = async ({ method }) => {
-        return {
-          result: undefined,
-          error: {
-            code: -32601,
-            message: "Method not found",
-            data: { method }
-          }
-        };
-      };
+    it("should publish events to subscribers until they unsubscribe", () => {
+      let events: TConnectionEvent[] = [];
 
       const client = createJrpc({
         sendMessage: ({ message }) => {
-          sentMessages = [...sentMessages, message];
+          client.receivedMessage({ message: { jsonrpc: "2.0", id: message.id as number, result: "ok" } });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
         },
-        handleRequest,
         handleNotification: () => {}
       });
 
-      client.receivedMessage({
-        message: {
-          jsonrpc: "2.0",
-          id: 123,
-          method: "unknownMethod",
-          params: {}
+      const { unsubscribe } = client.subscribe({
+        listener: ({ event }) => {
+          events = [...events, event];
         }
       });
 
-      // Wait for async handler to complete
-      await new Promise((resolve) => {
-        return setTimeout(resolve, 50);
-      });
+      client.request({ method: "observed", params: {} });
+      unsubscribe();
+      client.request({ method: "unobserved", params: {} });
 
-      assert.strictEqual(sentMessages.length, 1);
-      assert.strictEqual(sentMessages[0].id, 123);
-      assert.deepStrictEqual(sentMessages[0].error, {
-        code: -32601,
-        message: "Method not found",
-        data: { method: "unknownMethod" }
-      });
+      assert.deepStrictEqual(events.map((event) => {
+        return event.type === "request-settled" ? { ...event, durationMs: 0 } : event;
+      }), [
+        { type: "request-started", direction: "outbound", id: 0, method: "observed" },
+        { type: "messages", direction: "outbound", count: 1 },
+        { type: "messages", direction: "inbound", count: 1 },
+        { type: "request-settled", direction: "outbound", id: 0, method: "observed", durationMs: 0 }
+      ]);
     });
+  });
 
-    it("should handle incoming request with no response (ignore)", async () => {
-      let sentMessages: TJsonRpcMessage[] = [];
-      const handleRequest: TRequestHandler = async () => {
-        return {
-          result: undefined,
-          error: undefined
-        };
-      };
+  describe("tracing", () => {
+    const createTracedPair = ({
+      handleRequest,
+      tracer
+    }: {
+      handleRequest: TRequestHandler,
+      tracer: ReturnType<typeof createTracer>
+    }) => {
+      const server = createJrpc({
+        sendMessage: ({ message }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message });
+        },
+        sendBatch: ({ messages }) => {
+          // eslint-disable-next-line no-use-before-define
+          client.receivedMessage({ message: messages });
+        },
+        handleRequest,
+        handleNotification: () => {},
+        tracer
+      });
 
       const client = createJrpc({
         sendMessage: ({ message }) => {
-          sentMessages = [...sentMessages, message];
+          server.receivedMessage({ message });
         },
-        handleRequest,
-        handleNotification: () => {}
+        sendBatch: ({ messages }) => {
+          server.receivedMessage({ message: messages });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        tracer
       });
 
-      client.receivedMessage({
-        message: {
-          jsonrpc: "2.0",
-          id: 999,
-          method: "ignoredMethod",
-          params: {}
-        }
+      return { client };
+    };
+
+    it("should continue the trace across hops", async () => {
+      const exporter = createInMemorySpanExporter();
+      const tracer = createTracer({ exporter });
+
+      const { client: backendClient } = createTracedPair({
+        handleRequest: async () => {
+          return { result: "from backend", error: undefined };
+        },
+        tracer
       });
 
-      // Wait for async handler to complete
-      await new Promise((resolve) => {
-        return setTimeout(resolve, 50);
+      const { client: frontendClient } = createTracedPair({
+        handleRequest: async ({ traceContext }) => {
+          const { response } = await backendClient.request({ method: "inner", params: {}, traceContext });
+          return { result: response?.result ?? null, error: undefined };
+        },
+        tracer
       });
 
-      // No response should be sent
-      assert.strictEqual(sentMessages.length, 0);
+      const { response } = await frontendClient.request({ method: "outer", params: {} });
+
+      assert.strictEqual(response?.result, "from backend");
+
+      const describeTree = (nodes: ReturnType<typeof exporter.spanTree>): unknown[] => {
+        return nodes.map(({ span, children }) => {
+          return { name: span.name, kind: span.kind, children: describeTree(children) };
+        });
+      };
+
+      assert.deepStrictEqual(describeTree(exporter.spanTree()), [{
+        name: "outer",
+        kind: "client",
+        children: [{
+          name: "outer",
+          kind: "server",
+          children: [{
+            name: "inner",
+            kind: "client",
+            children: [{ name: "inner", kind: "server", children: [] }]
+          }]
+        }]
+      }]);
+      assert.strictEqual(new Set(exporter.spans().map(({ traceId }) => {
+        return traceId;
+      })).size, 1);
     });
-  });
 
-  describe("notifications", () => {
-    it("should send notifications without id", () => {
+    it("should send the span context as traceparent in $meta", () => {
       let sentMessages: TJsonRpcMessage[] = [];
+      const exporter = createInMemorySpanExporter();
 
       const client = createJrpc({
         sendMessage: ({ message }) => {
@@ -305,97 +3388,112 @@ describe("createJrpc", () => {
         handleRequest: async () => {
           return { result: undefined, error: undefined };
         },
-        handleNotification: () => {}
+        handleNotification: () => {},
+        tracer: createTracer({ exporter })
       });
 
-      client.notify({
-        method: "notificationMethod",
-        params: { event: "test" }
-      });
+      client.request({ method: "traced", params: {} });
+      client.close();
 
-      assert.strictEqual(sentMessages.length, 1);
-      assert.strictEqual(sentMessages[0].method, "notificationMethod");
-      assert.strictEqual(sentMessages[0].id, undefined);
-      assert.deepStrictEqual(sentMessages[0].params, { event: "test" });
+      const [span] = exporter.spans();
+      assert.strictEqual(span.failed, true);
+      assert.strictEqual(sentMessages[0]?.$meta?.traceparent, `00-${span.traceId}-${span.spanId}-01`);
     });
 
-    it("should handle incoming notifications", () => {
-      let receivedNotifications: Array<{ method: string, params: unknown }> = [];
-      const handleNotification: TNotificationHandler = ({ method, params }) => {
-        receivedNotifications = [...receivedNotifications, { method, params }];
-      };
+    it("should start a new trace for malformed traceparent", async () => {
+      const exporter = createInMemorySpanExporter();
+
+      const server = createJrpc({
+        sendMessage: () => {},
+        handleRequest: async () => {
+          return { result: "ok", error: undefined };
+        },
+        handleNotification: () => {},
+        tracer: createTracer({ exporter })
+      });
+
+      const { error } = server.receivedMessage({
+        message: { jsonrpc: "2.0", id: 1, method: "traced", params: {}, $meta: { traceparent: "garbage" } }
+      });
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, 0);
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(exporter.spans().map(({ name, kind, parentSpanId, failed }) => {
+        return { name, kind, parentSpanId, failed };
+      }), [{ name: "traced", kind: "server", parentSpanId: undefined, failed: false }]);
+    });
+  });
 
+  describe("invalid messages", () => {
+    it("should return error for null id", () => {
       const client = createJrpc({
         sendMessage: () => {},
         handleRequest: async () => {
           return { result: undefined, error: undefined };
         },
-        handleNotification
+        handleNotification: () => {}
       });
 
-      client.receivedMessage({
+      const { error } = client.receivedMessage({
         message: {
           jsonrpc: "2.0",
-          method: "notifyEvent",
-          params: { data: "notification data" }
+          id: null,
+          method: "test"
         }
       });
 
-      assert.strictEqual(receivedNotifications.length, 1);
-      assert.strictEqual(receivedNotifications[0].method, "notifyEvent");
-      assert.deepStrictEqual(receivedNotifications[0].params, { data: "notification data" });
+      assert.notStrictEqual(error, undefined);
+      assert.match(error?.message || "", /null ids/);
     });
-  });
 
-  describe("close", () => {
-    it("should reject all pending requests on close", async () => {
+    it("should answer requests with null id with a null id error response", () => {
+      let sentMessages: TJsonRpcMessage[] = [];
+
       const client = createJrpc({
-        sendMessage: () => {
-          // Never send response
+        sendMessage: ({ message }) => {
+          sentMessages = [...sentMessages, message];
         },
         handleRequest: async () => {
-          return { result: undefined, error: undefined };
+          throw Error("handler must not be called");
         },
         handleNotification: () => {}
       });
 
-      const promise1 = client.request({ method: "method1", params: {} });
-      const promise2 = client.request({ method: "method2", params: {} });
-
-      client.close();
-
-      const [result1, result2] = await Promise.all([promise1, promise2]);
+      client.receivedMessage({
+        message: { jsonrpc: "2.0", id: null, method: "test" }
+      });
 
-      assert.notStrictEqual(result1.error, undefined);
-      assert.strictEqual(result1.error?.message, "connection closed");
-      assert.notStrictEqual(result2.error, undefined);
-      assert.strictEqual(result2.error?.message, "connection closed");
+      assert.deepStrictEqual(sentMessages, [
+        { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid Request" } }
+      ]);
     });
 
-    it("should throw on receivedMessage after close", () => {
+    it("should pass error responses with null id to onUnmatchedError", () => {
+      let unmatchedErrors: unknown[] = [];
+
       const client = createJrpc({
         sendMessage: () => {},
         handleRequest: async () => {
           return { result: undefined, error: undefined };
         },
-        handleNotification: () => {}
+        handleNotification: () => {},
+        onUnmatchedError: ({ error }) => {
+          unmatchedErrors = [...unmatchedErrors, error];
+        }
       });
 
-      client.close();
+      const { error } = client.receivedMessage({
+        message: { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }
+      });
 
-      assert.throws(() => {
-        client.receivedMessage({
-          message: {
-            jsonrpc: "2.0",
-            method: "test"
-          }
-        });
-      }, /connection closed/);
+      assert.strictEqual(error, undefined);
+      assert.deepStrictEqual(unmatchedErrors, [{ code: -32700, message: "Parse error", data: undefined }]);
     });
-  });
 
-  describe("invalid messages", () => {
-    it("should return error for null id", () => {
+    it("should report error responses with null id without onUnmatchedError", () => {
       const client = createJrpc({
         sendMessage: () => {},
         handleRequest: async () => {
@@ -405,15 +3503,10 @@ describe("createJrpc", () => {
       });
 
       const { error } = client.receivedMessage({
-        message: {
-          jsonrpc: "2.0",
-          id: null,
-          method: "test"
-        }
+        message: { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }
       });
 
-      assert.notStrictEqual(error, undefined);
-      assert.match(error?.message || "", /null ids/);
+      assert.match(error?.message ?? "", /null id: Parse error/);
     });
 
     it("should return error for response to non-pending request", () => {
@@ -438,3 +3531,224 @@ describe("createJrpc", () => {
     });
   });
 });
+
+describe("createJsonParser", () => {
+  it("should reject frames beyond maxFrameBytes without parsing them", () => {
+    const parser = createJsonParser({ maxFrameBytes: 16 });
+
+    assert.deepStrictEqual(parser.parse({ data: "[1,2,3]" }), { error: undefined, message: [1, 2, 3] });
+
+    const { error } = parser.parse({ data: JSON.stringify({ jsonrpc: "2.0", method: "tick" }) });
+    assert.ok(error instanceof Error);
+    assert.match(error.message, /exceeds the limit of 16 bytes/);
+  });
+
+  it("should count the UTF-8 bytes of frames against maxFrameBytes", () => {
+    const frame = JSON.stringify("ä😀");
+
+    assert.deepStrictEqual(createJsonParser({ maxFrameBytes: 8 }).parse({ data: frame }), {
+      error: undefined,
+      message: "ä😀"
+    });
+
+    const { error } = createJsonParser({ maxFrameBytes: 7 }).parse({ data: frame });
+    assert.ok(error instanceof Error);
+    assert.match(error.message, /frame of 8 bytes/);
+  });
+});
+
+describe("createTransportJrpc", () => {
+  // frames sent by one side arrive at the other one asynchronously, closing either side closes both
+  const createTransportPair = () => {
+    type TListeners = {
+      message: ((args: { data: string | Uint8Array }) => void)[];
+      close: (() => void)[];
+      error: ((args: { error: Error }) => void)[];
+    };
+
+    const createListeners = (): TListeners => {
+      return { message: [], close: [], error: [] };
+    };
+
+    let listenersA = createListeners();
+    let listenersB = createListeners();
+    let closed = false;
+
+    const closeBoth = () => {
+      if (closed) {
+        return;
+      }
+
+      closed = true;
+      [...listenersA.close, ...listenersB.close].forEach((listener) => {
+        listener();
+      });
+    };
+
+    const createEnd = ({
+      ownListeners,
+      setOwnListeners,
+      remoteListeners
+    }: {
+      ownListeners: () => TListeners,
+      setOwnListeners: (listeners: TListeners) => void,
+      remoteListeners: () => TListeners
+    }): TTransport => {
+      return {
+        send: ({ data }) => {
+          setTimeout(() => {
+            remoteListeners().message.forEach((listener) => {
+              listener({ data });
+            });
+          }, 0);
+        },
+        onMessage: ({ listener }) => {
+          setOwnListeners({ ...ownListeners(), message: [...ownListeners().message, listener] });
+        },
+        onClose: ({ listener }) => {
+          setOwnListeners({ ...ownListeners(), close: [...ownListeners().close, listener] });
+        },
+        onError: ({ listener }) => {
+          setOwnListeners({ ...ownListeners(), error: [...ownListeners().error, listener] });
+        },
+        close: closeBoth
+      };
+    };
+
+    const transportA = createEnd({
+      ownListeners: () => {
+        return listenersA;
+      },
+      setOwnListeners: (listeners) => {
+        listenersA = listeners;
+      },
+      remoteListeners: () => {
+        return listenersB;
+      }
+    });
+
+    const transportB = createEnd({
+      ownListeners: () => {
+        return listenersB;
+      },
+      setOwnListeners: (listeners) => {
+        listenersB = listeners;
+      },
+      remoteListeners: () => {
+        return listenersA;
+      }
+    });
+
+    const failA = ({ error }: { error: Error }) => {
+      listenersA.error.forEach((listener) => {
+        listener({ error });
+      });
+    };
+
+    return {
+      transportA,
+      transportB,
+      failA,
+      isClosed: () => {
+        return closed;
+      }
+    };
+  };
+
+  const createEndpoint = ({ transport }: { transport: TTransport }) => {
+    let connectionErrors: Error[] = [];
+    let remoteCloseCount = 0;
+
+    const jrpc = createTransportJrpc({
+      transport,
+      parser: createJsonParser(),
+      handleRequest: async ({ method, params }) => {
+        return { result: { method, params }, error: undefined };
+      },
+      handleNotification: () => {},
+      onConnectionError: ({ error }) => {
+        connectionErrors = [...connectionErrors, error];
+      },
+      onRemoteClose: () => {
+        remoteCloseCount += 1;
+      }
+    });
+
+    return {
+      jrpc,
+      connectionErrors: () => {
+        return connectionErrors;
+      },
+      remoteCloseCount: () => {
+        return remoteCloseCount;
+      }
+    };
+  };
+
+  it("should exchange requests and count bytes in both directions", async () => {
+    const { transportA, transportB } = createTransportPair();
+    const { jrpc: client } = createEndpoint({ transport: transportA });
+    createEndpoint({ transport: transportB });
+
+    const { error, response } = await client.request({ method: "echo", params: [1] });
+
+    assert.strictEqual(error, undefined);
+    assert.deepStrictEqual(response?.result, { method: "echo", params: [1] });
+
+    const { bytes } = client.stats();
+    assert.ok(bytes.outbound > 0);
+    assert.ok(bytes.inbound > 0);
+  });
+
+  it("should report a remote close to the other side only", () => {
+    const { transportA, transportB } = createTransportPair();
+    const endpointA = createEndpoint({ transport: transportA });
+    const endpointB = createEndpoint({ transport: transportB });
+
+    endpointA.jrpc.close();
+
+    assert.strictEqual(endpointA.remoteCloseCount(), 0);
+    assert.strictEqual(endpointB.remoteCloseCount(), 1);
+  });
+
+  it("should close the transport when the peer sends garbage", async () => {
+    const { transportA, transportB, isClosed } = createTransportPair();
+    const endpointA = createEndpoint({ transport: transportA });
+
+    transportB.send({ data: "not json" });
+    await new Promise((resolve) => {
+      setTimeout(resolve, 10);
+    });
+
+    assert.strictEqual(isClosed(), true);
+    assert.strictEqual(endpointA.connectionErrors().length, 1);
+    assert.match(endpointA.connectionErrors()[0].message, /failed to parse message/);
+    assert.strictEqual(endpointA.remoteCloseCount(), 0);
+  });
+
+  it("should report transport errors without reporting the following close as remote close", () => {
+    const { transportA, failA } = createTransportPair();
+    const endpointA = createEndpoint({ transport: transportA });
+
+    failA({ error: Error("broken pipe") });
+    transportA.close();
+
+    assert.deepStrictEqual(endpointA.connectionErrors().map(({ message }) => {
+      return message;
+    }), ["broken pipe"]);
+    assert.strictEqual(endpointA.remoteCloseCount(), 0);
+  });
+
+  it("should close the transport after draining", async () => {
+    const { transportA, transportB, isClosed } = createTransportPair();
+    const { jrpc: client } = createEndpoint({ transport: transportA });
+    createEndpoint({ transport: transportB });
+
+    const resultPromise = client.request({ method: "echo", params: [] });
+    const { abandonedOutgoing } = await client.drain();
+
+    assert.deepStrictEqual(abandonedOutgoing, []);
+    assert.strictEqual((await resultPromise).error, undefined);
+    assert.strictEqual(isClosed(), true);
+  });
+});
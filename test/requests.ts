@@ -0,0 +1,275 @@
+import assert from "node:assert";
+import { describe, it } from "mocha";
+import { createJrpc, createRpcRequestsDefinition, isRequestError } from "../lib/index.ts";
+import { createTimeoutError } from "../lib/errors.ts";
+import type { TObjectParser } from "../lib/index.ts";
+
+const createNumberParser = (): TObjectParser<number> => {
+  return {
+    parse: ({ raw }) => {
+      if (typeof raw !== "number") {
+        return { error: Error("not a number"), value: undefined };
+      }
+
+      return { error: undefined, value: raw };
+    },
+    format: ({ value }) => {
+      return value;
+    }
+  };
+};
+
+const createEmptyParamsParser = (): TObjectParser<Record<string, never>> => {
+  return {
+    parse: () => {
+      return { error: undefined, value: {} };
+    },
+    format: () => {
+      return {};
+    }
+  };
+};
+
+const definition = createRpcRequestsDefinition({
+  importJob: {
+    paramsParser: createEmptyParamsParser(),
+    resultParser: createNumberParser(),
+    progressParser: createNumberParser()
+  },
+  searchHits: {
+    paramsParser: createEmptyParamsParser(),
+    itemParser: createNumberParser()
+  }
+});
+
+const createConnectedPair = () => {
+  const { handleRequest } = definition.createServer({
+    requests: {
+      importJob: async (params, { reportProgress }) => {
+        reportProgress(25);
+        reportProgress(75);
+        return 100;
+      },
+      searchHits: () => {
+        let hits = [3, 1, 4, "not a number"];
+
+        return {
+          [Symbol.asyncIterator]: () => {
+            return {
+              next: async () => {
+                const [hit, ...otherHits] = hits;
+                if (hits.length === 0) {
+                  return { done: true, value: undefined };
+                }
+
+                hits = otherHits;
+                return { done: false, value: hit as number };
+              }
+            };
+          }
+        };
+      }
+    },
+    handleUnknownRequest: async () => {
+      return { result: undefined, error: { code: -32601, message: "Method not found" } };
+    },
+    handleParametersParseError: async () => {
+      return { result: undefined, error: { code: -32602, message: "Invalid params" } };
+    }
+  });
+
+  const server = createJrpc({
+    sendMessage: ({ message }) => {
+      // eslint-disable-next-line no-use-before-define
+      client.receivedMessage({ message });
+    },
+    sendBatch: ({ messages }) => {
+      // eslint-disable-next-line no-use-before-define
+      client.receivedMessage({ message: messages });
+    },
+    handleRequest,
+    handleNotification: () => {},
+    progressNotificationMethod: "$/progress",
+    streamNotificationMethod: "$/stream"
+  });
+
+  const client = createJrpc({
+    sendMessage: ({ message }) => {
+      server.receivedMessage({ message });
+    },
+    sendBatch: ({ messages }) => {
+      server.receivedMessage({ message: messages });
+    },
+    handleRequest: async () => {
+      return { result: undefined, error: undefined };
+    },
+    handleNotification: () => {},
+    progressNotificationMethod: "$/progress",
+    streamNotificationMethod: "$/stream"
+  });
+
+  return {
+    typedClient: definition.createClient({
+      request: client.request,
+      requestStream: client.requestStream
+    })
+  };
+};
+
+describe("createRpcRequestsDefinition", () => {
+  describe("progress", () => {
+    it("should pass parsed progress to the typed client", async () => {
+      const { typedClient } = createConnectedPair();
+
+      let progressValues: number[] = [];
+
+      const { error, result } = await typedClient.importJob({}, {
+        onProgress: (progress) => {
+          progressValues = [...progressValues, progress];
+        }
+      });
+
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(result, 100);
+      assert.deepStrictEqual(progressValues, [25, 75]);
+    });
+  });
+
+  describe("timeouts", () => {
+    const timedDefinition = createRpcRequestsDefinition({
+      slowJob: {
+        paramsParser: createEmptyParamsParser(),
+        resultParser: createNumberParser(),
+        timeoutMs: 250
+      }
+    });
+
+    it("should use the timeout of the definition unless the call overrides it", async () => {
+      let timeouts: (number | undefined)[] = [];
+
+      const typedClient = timedDefinition.createClient({
+        request: async ({ timeoutMs }) => {
+          timeouts = [...timeouts, timeoutMs];
+          return { error: undefined, response: { error: undefined, result: 1 } };
+        }
+      });
+
+      await typedClient.slowJob({});
+      await typedClient.slowJob({}, { timeoutMs: 1000 });
+
+      assert.deepStrictEqual(timeouts, [250, 1000]);
+    });
+  });
+
+  describe("errors", () => {
+    it("should pass request errors through unchanged", async () => {
+      const timeoutError = createTimeoutError();
+
+      const typedClient = definition.createClient({
+        request: async () => {
+          return { error: timeoutError, response: undefined };
+        }
+      });
+
+      const { error } = await typedClient.importJob({});
+
+      assert.strictEqual(error, timeoutError);
+    });
+
+    it("should turn error responses into remote errors keeping code and data", async () => {
+      const typedClient = definition.createClient({
+        request: async () => {
+          return {
+            error: undefined,
+            response: { error: { code: -32001, message: "quota exceeded", data: { limit: 5 } }, result: undefined }
+          };
+        }
+      });
+
+      const { error } = await typedClient.importJob({});
+
+      assert.ok(isRequestError(error) && error.kind === "remote-error");
+      assert.strictEqual(error.code, -32001);
+      assert.deepStrictEqual(error.data, { limit: 5 });
+      assert.strictEqual(error.message, "quota exceeded");
+    });
+  });
+
+  describe("retry", () => {
+    const idempotentDefinition = createRpcRequestsDefinition({
+      readCounter: {
+        paramsParser: createEmptyParamsParser(),
+        resultParser: createNumberParser(),
+        retry: { maxAttempts: 3, initialDelayMs: 1, retryableErrorCodes: [-32000] }
+      }
+    });
+
+    it("should retry idempotent methods according to their policy", async () => {
+      let attempts = 0;
+
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          attempts += 1;
+          client.receivedMessage({
+            message: attempts < 3
+              ? { jsonrpc: "2.0", id: message.id as number, error: { code: -32000, message: "Server busy" } }
+              : { jsonrpc: "2.0", id: message.id as number, result: 42 }
+          });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {}
+      });
+
+      const typedClient = idempotentDefinition.createClient({ request: client.request });
+
+      const { error, result } = await typedClient.readCounter({});
+
+      assert.strictEqual(error, undefined);
+      assert.strictEqual(result, 42);
+      assert.strictEqual(attempts, 3);
+    });
+  });
+
+  describe("streaming", () => {
+    it("should validate each streamed item through the item parser", async () => {
+      const { typedClient } = createConnectedPair();
+
+      let hits: number[] = [];
+
+      await assert.rejects(async () => {
+        for await (const hit of typedClient.searchHits({})) {
+          hits = [...hits, hit];
+        }
+      }, /failed to parse stream item/);
+
+      assert.deepStrictEqual(hits, [3, 1, 4]);
+    });
+
+    it("should pass remote errors ending the stream through unchanged", async () => {
+      const client = createJrpc({
+        sendMessage: ({ message }) => {
+          client.receivedMessage({
+            message: { jsonrpc: "2.0", id: message.id as number, error: { code: 42, message: "nope", data: "why" } }
+          });
+        },
+        handleRequest: async () => {
+          return { result: undefined, error: undefined };
+        },
+        handleNotification: () => {},
+        streamNotificationMethod: "$/stream"
+      });
+
+      const typedClient = definition.createClient({ request: client.request, requestStream: client.requestStream });
+
+      await assert.rejects(async () => {
+        for await (const hit of typedClient.searchHits({})) {
+          assert.fail(`unexpected hit ${hit}`);
+        }
+      }, (error: Error) => {
+        return isRequestError(error) && error.kind === "remote-error" && error.code === 42 && error.data === "why";
+      });
+    });
+  });
+});
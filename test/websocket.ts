@@ -0,0 +1,224 @@
+import assert from "node:assert";
+import { describe, it } from "mocha";
+import { createJsonParser, createWebSocketJrpc, createWebSocketTransport } from "../lib/index.ts";
+import type { TTransportData } from "../lib/index.ts";
+
+// stands in for a WebSocket, the methods besides the socket let the test act as the network
+const createFakeSocket = () => {
+  const target = new EventTarget();
+  let sentData: unknown[] = [];
+  let closeCount = 0;
+
+  const socket = {
+    binaryType: "blob",
+    readyState: WebSocket.CONNECTING as number,
+    bufferedAmount: 0,
+    addEventListener: (type: string, listener: (event: Event) => void) => {
+      target.addEventListener(type, listener);
+    },
+    send: (data: unknown) => {
+      sentData = [...sentData, data];
+    },
+    close: () => {
+      closeCount += 1;
+    }
+  };
+
+  const open = () => {
+    // eslint-disable-next-line immutable/no-mutation
+    socket.readyState = WebSocket.OPEN;
+    target.dispatchEvent(new Event("open"));
+  };
+
+  const receive = ({ data }: { data: unknown }) => {
+    target.dispatchEvent(new MessageEvent("message", { data }));
+  };
+
+  const closeRemotely = () => {
+    // eslint-disable-next-line immutable/no-mutation
+    socket.readyState = WebSocket.CLOSED;
+    target.dispatchEvent(new Event("close"));
+  };
+
+  const fail = () => {
+    target.dispatchEvent(new Event("error"));
+  };
+
+  return {
+    socket: socket as unknown as WebSocket,
+    open,
+    receive,
+    closeRemotely,
+    fail,
+    sentData: () => {
+      return sentData;
+    },
+    closeCount: () => {
+      return closeCount;
+    }
+  };
+};
+
+describe("createWebSocketTransport", () => {
+  it("should receive binary frames as bytes", () => {
+    const fakeSocket = createFakeSocket();
+    const transport = createWebSocketTransport({ socket: fakeSocket.socket });
+
+    let receivedData: TTransportData[] = [];
+    transport.onMessage({
+      listener: ({ data }) => {
+        receivedData = [...receivedData, data];
+      }
+    });
+
+    fakeSocket.open();
+    fakeSocket.receive({ data: "text" });
+    fakeSocket.receive({ data: new Uint8Array([1, 2, 3]).buffer });
+
+    assert.strictEqual(fakeSocket.socket.binaryType, "arraybuffer");
+    assert.deepStrictEqual(receivedData, ["text", new Uint8Array([1, 2, 3])]);
+  });
+
+  it("should queue frames sent before the socket opens", () => {
+    const fakeSocket = createFakeSocket();
+    const transport = createWebSocketTransport({ socket: fakeSocket.socket });
+
+    transport.send({ data: "first" });
+    transport.send({ data: "second" });
+
+    assert.deepStrictEqual(fakeSocket.sentData(), []);
+
+    fakeSocket.open();
+    transport.send({ data: "third" });
+
+    assert.deepStrictEqual(fakeSocket.sentData(), ["first", "second", "third"]);
+  });
+
+  it("should drop queued frames when the socket closes before opening", () => {
+    const fakeSocket = createFakeSocket();
+    const transport = createWebSocketTransport({ socket: fakeSocket.socket });
+
+    let closeCount = 0;
+    transport.onClose({
+      listener: () => {
+        closeCount += 1;
+      }
+    });
+
+    transport.send({ data: "never sent" });
+    fakeSocket.closeRemotely();
+    fakeSocket.open();
+
+    assert.strictEqual(closeCount, 1);
+    assert.deepStrictEqual(fakeSocket.sentData(), []);
+  });
+
+  it("should report socket errors and close the socket on close", () => {
+    const fakeSocket = createFakeSocket();
+    const transport = createWebSocketTransport({ socket: fakeSocket.socket });
+
+    let errors: Error[] = [];
+    transport.onError({
+      listener: ({ error }) => {
+        errors = [...errors, error];
+      }
+    });
+
+    fakeSocket.fail();
+    transport.close();
+
+    assert.deepStrictEqual(errors.map((error) => {
+      return error.message;
+    }), ["WebSocket connection error"]);
+    assert.strictEqual(fakeSocket.closeCount(), 1);
+  });
+});
+
+describe("createWebSocketJrpc", () => {
+  const createServer = () => {
+    const fakeSocket = createFakeSocket();
+    let connectionErrors: Error[] = [];
+    let remoteCloseCount = 0;
+
+    const jrpc = createWebSocketJrpc({
+      socket: fakeSocket.socket,
+      parser: createJsonParser(),
+      handleRequest: async ({ method, params }) => {
+        return { result: { method, params }, error: undefined };
+      },
+      handleNotification: () => {},
+      onConnectionError: ({ error }) => {
+        connectionErrors = [...connectionErrors, error];
+      },
+      onRemoteClose: () => {
+        remoteCloseCount += 1;
+      }
+    });
+
+    return {
+      fakeSocket,
+      jrpc,
+      connectionErrors: () => {
+        return connectionErrors;
+      },
+      remoteCloseCount: () => {
+        return remoteCloseCount;
+      }
+    };
+  };
+
+  it("should answer requests received over the socket", async () => {
+    const { fakeSocket, jrpc } = createServer();
+
+    fakeSocket.open();
+    fakeSocket.receive({ data: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "echo", params: [1] }) });
+
+    await new Promise((resolve) => {
+      return setTimeout(resolve, 10);
+    });
+
+    assert.deepStrictEqual(fakeSocket.sentData().map((data) => {
+      return JSON.parse(data as string);
+    }), [
+      { jsonrpc: "2.0", id: 1, result: { method: "echo", params: [1] } }
+    ]);
+    assert.strictEqual(jrpc.bufferedAmount(), 0);
+  });
+
+  it("should send messages sent before the socket opens once it is open", () => {
+    const { fakeSocket, jrpc } = createServer();
+
+    jrpc.notify({ method: "early", params: {} });
+    fakeSocket.open();
+
+    assert.deepStrictEqual(fakeSocket.sentData().map((data) => {
+      return JSON.parse(data as string);
+    }), [
+      { jsonrpc: "2.0", method: "early", params: {} }
+    ]);
+  });
+
+  it("should report a remote close and fail pending requests", async () => {
+    const { fakeSocket, jrpc, remoteCloseCount } = createServer();
+
+    fakeSocket.open();
+    const promise = jrpc.request({ method: "pending", params: {} });
+    fakeSocket.closeRemotely();
+
+    const { error } = await promise;
+
+    assert.strictEqual(error?.kind, "connection-closed");
+    assert.strictEqual(remoteCloseCount(), 1);
+  });
+
+  it("should report socket errors as connection errors", () => {
+    const { fakeSocket, connectionErrors } = createServer();
+
+    fakeSocket.open();
+    fakeSocket.fail();
+
+    assert.deepStrictEqual(connectionErrors().map((error) => {
+      return error.message;
+    }), ["WebSocket connection error"]);
+  });
+});